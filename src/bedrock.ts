@@ -15,7 +15,8 @@
  */
 
 // Re-export core
-export { init, flush, isEnabled } from './core/config';
+export { init, flush, shutdown, isEnabled } from './core/config';
+export { registerShutdownHooks } from './core/lifecycle';
 export { trace, span, getTraceContext } from './core/context';
 export { captureSpan } from './core/capture';
 
@@ -31,6 +32,7 @@ export type { TraceContext, TraceOptions, SpanOptions } from './core/context';
 // Provider-specific observe
 import * as bedrock from './providers/bedrock';
 import { setGlobalContext } from './core/capture';
+import { splitObserveOptions, bindToScope } from './core/scope';
 import { getConfig } from './core/config';
 import type { ObserveOptions } from './core/types';
 import { clientWrapped, warn, debug } from './core/logger';
@@ -39,8 +41,9 @@ import { clientWrapped, warn, debug } from './core/logger';
  * Wrap a Bedrock client with automatic tracing
  */
 export function observe<T>(client: T, options?: ObserveOptions): T {
+  const { context, scope } = splitObserveOptions(options);
   if (options) {
-    setGlobalContext(options);
+    setGlobalContext(context);
   }
 
   const config = getConfig();
@@ -55,5 +58,5 @@ export function observe<T>(client: T, options?: ObserveOptions): T {
   }
 
   clientWrapped('bedrock');
-  return bedrock.wrap(client) as T;
+  return bindToScope(bedrock.wrap(client) as T, scope);
 }
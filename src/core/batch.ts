@@ -0,0 +1,218 @@
+/**
+ * Batch Sizing
+ *
+ * Keeps ingest request bodies under a byte limit.
+ * Features:
+ * - Splits queued spans into batches by count and serialized size
+ * - Packs whole traces into batches (batch-by-trace delivery)
+ * - Trims spans that are too large on their own (rawResponse first, then input and output, then metadata)
+ */
+
+import type { CreateTraceRequest } from './types';
+import { getSerializedSize } from './queue';
+import { transportEvent } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+export interface BatchLimits {
+  maxItems: number;
+  maxBytes: number;
+}
+
+/** `{"events":[` + `]}` around the spans in an ingest body */
+const ENVELOPE_BYTES = 13;
+/** Room for one `{"traceId":…,"spanCount":…,"complete":…}` marker in the `traces` array */
+const TRACE_MARKER_BYTES = 96;
+const TRUNCATION_MARKER = '...[truncated]';
+
+/** rawResponse fields kept when it has to be trimmed, so usage can still be extracted */
+const RAW_RESPONSE_SUMMARY_KEYS = ['id', 'model', 'usage', 'usageMetadata', 'stop_reason', 'stopReason'];
+
+/** Span content trimmed after rawResponse, sharing the space left between them */
+const CONTENT_FIELDS = ['input', 'output'] as const;
+
+const fittedCache = new WeakMap<CreateTraceRequest, CreateTraceRequest>();
+
+// ─────────────────────────────────────────────────────────────
+// Splitting
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Split spans into batches of at most `maxItems` spans and `maxBytes` of request body
+ */
+export function splitBatches(items: CreateTraceRequest[], limits: BatchLimits): CreateTraceRequest[][] {
+  const batches: CreateTraceRequest[][] = [];
+  let current: CreateTraceRequest[] = [];
+  let currentBytes = ENVELOPE_BYTES;
+
+  for (const item of items) {
+    // +1 for the comma between events
+    const bytes = getSerializedSize(fitSpan(item, limits.maxBytes)) + 1;
+
+    if (current.length > 0 && (current.length >= limits.maxItems || currentBytes + bytes > limits.maxBytes)) {
+      batches.push(current);
+      current = [];
+      currentBytes = ENVELOPE_BYTES;
+    }
+
+    current.push(item);
+    currentBytes += bytes;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * Pack groups of spans (one per trace) into batches without splitting a group.
+ * A trace may exceed `maxItems`; only one too large for `maxBytes` is split.
+ */
+export function packTraces(groups: CreateTraceRequest[][], limits: BatchLimits): CreateTraceRequest[][] {
+  const batches: CreateTraceRequest[][] = [];
+  let current: CreateTraceRequest[] = [];
+  let currentBytes = ENVELOPE_BYTES;
+
+  for (const group of groups) {
+    const bytes = group.reduce(
+      (sum, item) => sum + getSerializedSize(fitSpan(item, limits.maxBytes)) + 1,
+      TRACE_MARKER_BYTES
+    );
+
+    if (current.length > 0 && (current.length + group.length > limits.maxItems || currentBytes + bytes > limits.maxBytes)) {
+      batches.push(current);
+      current = [];
+      currentBytes = ENVELOPE_BYTES;
+    }
+
+    if (ENVELOPE_BYTES + bytes > limits.maxBytes) {
+      transportEvent('Trace too large for one batch, splitting', { traceId: group[0].traceId, count: group.length });
+      batches.push(...splitBatches(group, limits));
+      continue;
+    }
+
+    current.push(...group);
+    currentBytes += bytes;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Trimming
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Return a copy of the span that fits in a request of `maxBytes` on its own.
+ * Spans that already fit are returned as-is.
+ */
+export function fitSpan(trace: CreateTraceRequest, maxBytes: number): CreateTraceRequest {
+  const budget = maxBytes - ENVELOPE_BYTES;
+  if (getSerializedSize(trace) <= budget) return trace;
+
+  const cached = fittedCache.get(trace);
+  if (cached) return cached;
+
+  let fitted: CreateTraceRequest = trace;
+
+  if (trace.rawResponse !== undefined) {
+    fitted = { ...fitted, rawResponse: summarizeRawResponse(trace.rawResponse) };
+  }
+
+  if (getSerializedSize(fitted) > budget) {
+    fitted = trimContent(fitted, budget);
+  }
+
+  if (getSerializedSize(fitted) > budget && fitted.metadata !== undefined) {
+    fitted = { ...fitted, metadata: { truncated: true } };
+  }
+
+  transportEvent('Trimmed oversized span', {
+    model: trace.model,
+    bytes: getSerializedSize(trace),
+    trimmedBytes: getSerializedSize(fitted),
+    maxBatchBytes: maxBytes,
+  });
+
+  fittedCache.set(trace, fitted);
+  return fitted;
+}
+
+/**
+ * Cut input and output so the span fits in `budget`
+ * The space left is split evenly; a field smaller than its share is kept whole
+ * and the rest goes to the other one
+ */
+function trimContent(trace: CreateTraceRequest, budget: number): CreateTraceRequest {
+  const emptied: CreateTraceRequest = { ...trace };
+  const fields = CONTENT_FIELDS.filter((field) => trace[field] !== undefined);
+  for (const field of fields) emptied[field] = '';
+
+  const emptiedSize = getSerializedSize(emptied);
+  const entries = fields
+    .map((field) => ({ field, size: getSerializedSize({ ...emptied, [field]: trace[field] }) - emptiedSize }))
+    // Smallest first, so its unused share goes to the larger field
+    .sort((a, b) => a.size - b.size);
+
+  let available = budget - emptiedSize;
+  const fitted: CreateTraceRequest = { ...trace };
+  entries.forEach(({ field, size }, index) => {
+    const share = Math.floor(available / (entries.length - index));
+    if (size <= share) {
+      available -= size;
+      return;
+    }
+    fitted[field] = truncateValue(trace[field], share);
+    available -= share;
+  });
+
+  return fitted;
+}
+
+/**
+ * Keep only identifying and usage fields of a raw provider response
+ */
+function summarizeRawResponse(raw: unknown): unknown {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { truncated: true };
+  }
+
+  const summary: Record<string, unknown> = { truncated: true };
+  for (const key of RAW_RESPONSE_SUMMARY_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value !== undefined) summary[key] = value;
+  }
+  return summary;
+}
+
+/**
+ * Serialize a value and cut it so its JSON string encoding fits in `maxBytes`
+ */
+function truncateValue(value: unknown, maxBytes: number): string {
+  let text: string;
+  try {
+    text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  } catch {
+    text = String(value);
+  }
+
+  const encoder = new TextEncoder();
+  const available = maxBytes - encoder.encode(JSON.stringify(TRUNCATION_MARKER)).length;
+  if (available <= 0) return TRUNCATION_MARKER;
+
+  // Escapes and multi-byte characters make the encoded size larger than the length
+  let length = Math.min(text.length, available);
+  while (length > 0 && encoder.encode(JSON.stringify(text.slice(0, length))).length - 2 > available) {
+    length = Math.floor(length * 0.9);
+  }
+
+  return text.slice(0, length) + TRUNCATION_MARKER;
+}
@@ -5,35 +5,30 @@
  * Called by providers to record LLM calls.
  */
 
-import type { ProviderName, CreateTraceRequest, ObserveOptions, CaptureSpanOptions, SpanType, RedactionConfig } from './types';
-import { getTransport, getTelemetry, getConfig } from './config';
+import type { ProviderName, CreateTraceRequest, ObserveOptions, CaptureSpanOptions, SpanType, RedactionConfig, SamplingContext } from './types';
+import { getPipeline, getTelemetry, getConfig } from './config';
+import { getActiveClient } from './client';
 import { traceCapture, traceCaptureError, debug } from './logger';
 import { getTraceContext, generateId } from './context';
+import type { TraceContext } from './context';
+import { shouldSample } from './sampling';
+import { callHook } from './hooks';
+import { setProjectKey } from './routing';
+import { getClientScope } from './scope';
+import { resolveContentPolicy, stripContent } from './content';
+import type { ContentPolicy } from './content';
 
 // ─────────────────────────────────────────────────────────────
 // Global context (set via observe options)
 // ─────────────────────────────────────────────────────────────
 
-// Use a global symbol to ensure single instance across all entry points
-// This fixes the issue where @lelemondev/sdk and @lelemondev/sdk/bedrock
-// would create separate globalContext due to bundler splitting
-const GLOBAL_CONTEXT_KEY = Symbol.for('@lelemondev/sdk:globalContext');
-
-function getGlobalContextStore(): { context: ObserveOptions } {
-  const globalObj = globalThis as Record<symbol, { context: ObserveOptions } | undefined>;
-  if (!globalObj[GLOBAL_CONTEXT_KEY]) {
-    globalObj[GLOBAL_CONTEXT_KEY] = { context: {} };
-  }
-  return globalObj[GLOBAL_CONTEXT_KEY];
-}
-
+// Each client keeps its own context; the default client is shared across entry points
 export function setGlobalContext(options: ObserveOptions): void {
-  getGlobalContextStore().context = options;
-  debug('Global context updated', options);
+  getActiveClient().setContext(options);
 }
 
 export function getGlobalContext(): ObserveOptions {
-  return getGlobalContextStore().context;
+  return getActiveClient().getContext();
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -77,7 +72,7 @@ export interface CaptureErrorParams {
  */
 export function captureTrace(params: CaptureTraceParams): string | undefined {
   try {
-    const transport = getTransport();
+    const transport = getPipeline();
     if (!transport.isEnabled()) {
       debug('Transport disabled, skipping trace capture');
       return undefined;
@@ -85,7 +80,13 @@ export function captureTrace(params: CaptureTraceParams): string | undefined {
 
     const globalContext = getGlobalContext();
     const traceContext = getTraceContext();
+
+    if (!isSampled(traceContext, { model: params.model, provider: params.provider, name: params.name })) {
+      return undefined;
+    }
+
     const spanId = generateId();
+    const content = getContentPolicy(traceContext);
 
     // Include SDK telemetry in metadata
     const telemetry = getTelemetry();
@@ -93,8 +94,11 @@ export function captureTrace(params: CaptureTraceParams): string | undefined {
     const request: CreateTraceRequest = {
       provider: params.provider,
       model: params.model,
-      input: sanitizeInput(params.input),
-      rawResponse: params.rawResponse ? sanitize(params.rawResponse, 0) : undefined,
+      input: content.input ? sanitizeInput(params.input) : undefined,
+      // Without output content the raw response keeps only what token/model extraction needs
+      rawResponse: params.rawResponse
+        ? sanitize(content.output ? params.rawResponse : stripContent(params.rawResponse), 0)
+        : undefined,
       durationMs: params.durationMs,
       status: params.status,
       streaming: params.streaming,
@@ -117,12 +121,13 @@ export function captureTrace(params: CaptureTraceParams): string | undefined {
       name: params.name,
     };
 
+    setProjectKey(request, getProjectKey(traceContext));
     traceCapture(params.provider, params.model, params.durationMs, params.status);
     transport.enqueue(request);
 
     return spanId;
   } catch (err) {
-    traceCaptureError(params.provider, err instanceof Error ? err : new Error(String(err)));
+    captureFailed(params.provider, err);
     return undefined;
   }
 }
@@ -133,7 +138,7 @@ export function captureTrace(params: CaptureTraceParams): string | undefined {
  */
 export function captureError(params: CaptureErrorParams): void {
   try {
-    const transport = getTransport();
+    const transport = getPipeline();
     if (!transport.isEnabled()) {
       debug('Transport disabled, skipping error capture');
       return;
@@ -142,13 +147,19 @@ export function captureError(params: CaptureErrorParams): void {
     const globalContext = getGlobalContext();
     const traceContext = getTraceContext();
 
+    if (!isSampled(traceContext, { model: params.model, provider: params.provider })) {
+      return;
+    }
+
+    const content = getContentPolicy(traceContext);
+
     // Include SDK telemetry in metadata
     const telemetry = getTelemetry();
 
     const request: CreateTraceRequest = {
       provider: params.provider,
       model: params.model,
-      input: sanitizeInput(params.input),
+      input: content.input ? sanitizeInput(params.input) : undefined,
       durationMs: params.durationMs,
       status: 'error',
       errorMessage: params.error.message,
@@ -167,11 +178,12 @@ export function captureError(params: CaptureErrorParams): void {
       tags: globalContext.tags,
     };
 
+    setProjectKey(request, getProjectKey(traceContext));
     traceCapture(params.provider, params.model, params.durationMs, 'error');
     debug('Error details', { message: params.error.message, stack: params.error.stack });
     transport.enqueue(request);
   } catch (err) {
-    traceCaptureError(params.provider, err instanceof Error ? err : new Error(String(err)));
+    captureFailed(params.provider, err);
   }
 }
 
@@ -205,7 +217,7 @@ export function captureError(params: CaptureErrorParams): void {
  */
 export function captureSpan(options: CaptureSpanOptions): void {
   try {
-    const transport = getTransport();
+    const transport = getPipeline();
     if (!transport.isEnabled()) {
       debug('Transport disabled, skipping span capture');
       return;
@@ -214,10 +226,16 @@ export function captureSpan(options: CaptureSpanOptions): void {
     const globalContext = getGlobalContext();
     const traceContext = getTraceContext();
 
+    if (!isSampled(traceContext, { model: options.name, provider: 'unknown', name: options.name })) {
+      return;
+    }
+
     // Extract trace context from metadata if passed from span() in context.ts
     const metadataTraceId = (options.metadata as Record<string, unknown>)?._traceId as string | undefined;
     const metadataParentSpanId = (options.metadata as Record<string, unknown>)?._parentSpanId as string | undefined;
 
+    const content = getContentPolicy(traceContext);
+
     // Include SDK telemetry in metadata
     const telemetry = getTelemetry();
 
@@ -235,9 +253,9 @@ export function captureSpan(options: CaptureSpanOptions): void {
       name: options.name,
       provider: 'unknown',
       model: options.name,
-      input: sanitizeInput(options.input),
+      input: content.input ? sanitizeInput(options.input) : undefined,
       // Manual spans use output directly (not rawResponse)
-      output: sanitize(options.output, 0),
+      output: content.output ? sanitize(options.output, 0) : undefined,
       durationMs: options.durationMs,
       status: options.status || 'success',
       errorMessage: options.errorMessage,
@@ -252,13 +270,61 @@ export function captureSpan(options: CaptureSpanOptions): void {
       tags: globalContext.tags,
     };
 
+    setProjectKey(request, getProjectKey(traceContext));
     debug(`Span captured: ${options.type}/${options.name}`, { durationMs: options.durationMs });
     transport.enqueue(request);
   } catch (err) {
-    traceCaptureError('unknown', err instanceof Error ? err : new Error(String(err)));
+    captureFailed('unknown', err);
   }
 }
 
+// ─────────────────────────────────────────────────────────────
+// Sampling & Content
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Head sampling: inherit the trace() decision, or decide for a standalone span
+ */
+function isSampled(traceContext: TraceContext | undefined, span: Pick<SamplingContext, 'model' | 'provider' | 'name'>): boolean {
+  if (traceContext) return traceContext.sampled;
+
+  const globalContext = getGlobalContext();
+  return shouldSample({
+    ...span,
+    userId: globalContext.userId,
+    sessionId: globalContext.sessionId,
+    tags: globalContext.tags,
+  });
+}
+
+/**
+ * Project a span is routed to: trace(), then the wrapped client's observe(), then setGlobalContext()
+ */
+function getProjectKey(traceContext: TraceContext | undefined): string | undefined {
+  return traceContext?.projectKey ?? getClientScope()?.projectKey ?? getGlobalContext().projectKey;
+}
+
+/**
+ * What content may be captured here: init(), observe() and trace() settings combined
+ */
+function getContentPolicy(traceContext: TraceContext | undefined): ContentPolicy {
+  return resolveContentPolicy(
+    getConfig().captureContent,
+    getGlobalContext().captureContent,
+    getClientScope()?.captureContent,
+    traceContext?.captureContent
+  );
+}
+
+/**
+ * Log a capture failure and report it to onExportError
+ */
+function captureFailed(provider: string, err: unknown): void {
+  const error = err instanceof Error ? err : new Error(String(err));
+  traceCaptureError(provider, error);
+  callHook('onExportError', getConfig().onExportError, { exporter: 'capture', error, spans: [] });
+}
+
 // ─────────────────────────────────────────────────────────────
 // Sanitization (security)
 // ─────────────────────────────────────────────────────────────
@@ -0,0 +1,114 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops the transport from hammering an ingest API that keeps failing.
+ * - closed: requests flow, consecutive failed batches are counted
+ * - open: no requests until the reset timeout elapses
+ * - half-open: one probe batch; success closes, failure reopens with a longer timeout
+ */
+
+import type { CircuitBreakerConfig, CircuitState } from './types';
+import { transportEvent } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RESET_TIMEOUT_MS = 5 * 60 * 1000;
+
+// ─────────────────────────────────────────────────────────────
+// Circuit Breaker Class
+// ─────────────────────────────────────────────────────────────
+
+export class CircuitBreaker {
+  private readonly config: Required<CircuitBreakerConfig>;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private resetTimeoutMs: number;
+  private retryAt = 0;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = {
+      failureThreshold: config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+      resetTimeoutMs: config.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS,
+      maxResetTimeoutMs: config.maxResetTimeoutMs ?? DEFAULT_MAX_RESET_TIMEOUT_MS,
+      queuePolicy: config.queuePolicy ?? 'keep',
+    };
+    this.resetTimeoutMs = this.config.resetTimeoutMs;
+  }
+
+  get queuePolicy(): 'keep' | 'drop' {
+    return this.config.queuePolicy;
+  }
+
+  /**
+   * Whether a request may be sent now
+   * An open circuit turns half-open once its reset timeout has elapsed
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() >= this.retryAt) {
+      this.transition('half-open');
+    }
+    return this.state !== 'open';
+  }
+
+  /**
+   * The ingest API answered (delivered or rejected the batch)
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.resetTimeoutMs = this.config.resetTimeoutMs;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * A batch failed for good with a transient error (network, timeout, 5xx)
+   */
+  recordFailure(): void {
+    this.failures++;
+
+    if (this.state === 'half-open') {
+      // Probe failed: back off further before the next one
+      this.resetTimeoutMs = Math.min(this.resetTimeoutMs * 2, this.config.maxResetTimeoutMs);
+      this.open();
+    } else if (this.state === 'closed' && this.failures >= this.config.failureThreshold) {
+      this.open();
+    }
+  }
+
+  getState(): CircuitState {
+    // Report half-open as soon as a probe is due, without waiting for the next request
+    if (this.state === 'open' && Date.now() >= this.retryAt) return 'half-open';
+    return this.state;
+  }
+
+  /**
+   * Epoch ms of the next probe while open (0 otherwise)
+   */
+  getRetryAt(): number {
+    return this.state === 'open' ? this.retryAt : 0;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private open(): void {
+    this.retryAt = Date.now() + this.resetTimeoutMs;
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const from = this.state;
+    this.state = state;
+    transportEvent(`Circuit breaker ${state}`, {
+      from,
+      failures: this.failures,
+      ...(state === 'open' && { retryInMs: this.resetTimeoutMs }),
+    });
+  }
+}
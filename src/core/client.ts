@@ -0,0 +1,492 @@
+/**
+ * Lelemon Client
+ *
+ * An independent SDK setup: its own config, transport, export pipeline,
+ * redaction, sampling and observe() context. The public `Lelemon` class
+ * adds observe() on top; this core class has no provider dependencies.
+ *
+ * The top-level functions (init, observe, trace, flush...) act on a default
+ * client. Spans are attributed to the client whose observe()/trace()/span()
+ * produced them, tracked with AsyncLocalStorage.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LelemonConfig, RuntimeConfig, ObserveOptions, CaptureSpanOptions, SDKTelemetry, ShutdownOptions, ConfigDiagnostic } from './types';
+import { Transport } from './transport';
+import type { TransportStats } from './transport';
+import { ExportPipeline, BatchExporter } from './exporter';
+import { SelfReporter } from './self-report';
+import { setDebug, info, warn, debug } from './logger';
+import { buildTelemetry } from './telemetry';
+import { resolveConfig } from './env';
+import { checkConfig, reportDiagnostics } from './validate';
+import { trace, span } from './context';
+import type { TraceOptions, SpanOptions } from './context';
+import { captureSpan } from './capture';
+import { bindCalls } from './scope';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+const DEFAULT_ENDPOINT = 'https://api.lelemon.dev';
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 5000;
+
+/** Options updateConfig() applies; the rest only take effect through init() */
+const RUNTIME_CONFIG_KEYS: Record<keyof RuntimeConfig, true> = {
+  redaction: true,
+  captureContent: true,
+  sampling: true,
+  service: true,
+  debug: true,
+  endpoint: true,
+};
+
+// ─────────────────────────────────────────────────────────────
+// Client Class
+// ─────────────────────────────────────────────────────────────
+
+export class LelemonClient {
+  private config: LelemonConfig = {};
+  private transport: Transport | null = null;
+  private pipeline: ExportPipeline | null = null;
+  private telemetry: SDKTelemetry | null = null;
+  private selfReporter: SelfReporter | null = null;
+  /** Previous pipeline still draining after init() was called again */
+  private retiringPipeline: Promise<void> | null = null;
+  /** Context set via observe() options, applied to every span */
+  private context: ObserveOptions = {};
+  private initialized = false;
+
+  /**
+   * Create a client; with a config it's initialized right away
+   * Environment variables apply like for init()
+   */
+  constructor(config?: LelemonConfig) {
+    if (config) {
+      this.init(config);
+    }
+  }
+
+  /**
+   * Initialize (or re-initialize) the client
+   * Prefer updateConfig() for runtime changes: re-initializing drains the previous transport
+   */
+  init(options: LelemonConfig = {}): void {
+    // Throws in strict mode, before anything is replaced
+    const { config, diagnostics } = checkConfig(resolveConfig(options));
+    reportDiagnostics(diagnostics, config.strict ?? false);
+
+    if (this.initialized) {
+      // Re-initializing with the same options is harmless; only a changed config needs the hint
+      if (!isSameConfig(this.config, config)) {
+        warn('init() called more than once. Spans queued so far are flushed with the previous config; use updateConfig() to change options at runtime.');
+      }
+      this.retirePipeline();
+    }
+
+    this.config = config;
+
+    // Configure debug mode
+    if (config.debug) {
+      setDebug(true);
+    }
+
+    // Build telemetry with service config
+    this.telemetry = buildTelemetry(config.service);
+
+    info('Initializing SDK', {
+      endpoint: config.endpoint ?? DEFAULT_ENDPOINT,
+      debug: config.debug ?? false,
+      disabled: config.disabled ?? false,
+      telemetry: this.telemetry,
+    });
+
+    this.transport = createTransport(config);
+    this.pipeline = createPipeline(config, this.transport);
+    this.initialized = true;
+
+    this.selfReporter?.stop();
+    this.selfReporter = createSelfReporter(config, this.transport, this.pipeline);
+    this.selfReporter?.start();
+
+    // Log status after transport is created
+    if (this.pipeline.isEnabled()) {
+      info('SDK initialized - tracing enabled');
+    } else {
+      debug('SDK initialized - tracing disabled');
+    }
+  }
+
+  /**
+   * Change redaction, sampling, service metadata, debug or endpoint at runtime
+   * Keeps the transport and its queue: spans already queued go to the new endpoint.
+   * Redaction and sampling apply to spans captured from now on.
+   */
+  updateConfig(partial: RuntimeConfig): void {
+    const { runtime, rejected } = splitRuntimeConfig(partial);
+    const { config: changed, diagnostics } = checkConfig(runtime);
+    reportDiagnostics([...rejected, ...diagnostics], this.config.strict ?? false);
+    this.config = { ...this.config, ...changed };
+
+    if ('debug' in changed) {
+      setDebug(!!changed.debug);
+    }
+
+    if ('service' in changed) {
+      this.telemetry = buildTelemetry(this.config.service);
+    }
+
+    if ('endpoint' in changed) {
+      this.transport?.setEndpoint(this.config.endpoint ?? DEFAULT_ENDPOINT);
+    }
+
+    debug('Config updated', { keys: Object.keys(changed) });
+  }
+
+  getConfig(): LelemonConfig {
+    return this.config;
+  }
+
+  getTelemetry(): SDKTelemetry | null {
+    return this.telemetry;
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  isEnabled(): boolean {
+    return this.getPipeline().isEnabled();
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Tracing
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * trace() with spans sent by this client
+   */
+  trace<T>(nameOrOptions: string | TraceOptions, fn: () => Promise<T>): Promise<T> {
+    return this.run(() => trace(nameOrOptions, fn));
+  }
+
+  /**
+   * span() with the span sent by this client
+   */
+  span(options: SpanOptions): void {
+    this.run(() => span(options));
+  }
+
+  /**
+   * captureSpan() with the span sent by this client
+   */
+  captureSpan(options: CaptureSpanOptions): void {
+    this.run(() => captureSpan(options));
+  }
+
+  /**
+   * Run a function with this client as the one capturing spans
+   */
+  run<T>(fn: () => T): T {
+    return clientStorage.run(this, fn);
+  }
+
+  /** @internal Context set via observe() options */
+  getContext(): ObserveOptions {
+    return this.context;
+  }
+
+  /** @internal */
+  setContext(options: ObserveOptions): void {
+    this.context = options;
+    debug('Global context updated', options);
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Transport
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Get or create transport instance
+   */
+  getTransport(): Transport {
+    if (!this.transport) {
+      // Used without init(): environment variables still apply
+      if (!this.initialized) {
+        this.config = resolveConfig(this.config);
+      }
+      this.transport = createTransport(this.config);
+    }
+    return this.transport;
+  }
+
+  /**
+   * Get or create the export pipeline (HTTP transport + custom exporters)
+   */
+  getPipeline(): ExportPipeline {
+    if (!this.pipeline) {
+      this.pipeline = createPipeline(this.config, this.getTransport());
+    }
+    return this.pipeline;
+  }
+
+  /**
+   * Flush all pending traces
+   */
+  async flush(): Promise<void> {
+    await this.retiringPipeline;
+    if (this.pipeline) {
+      await this.pipeline.flush();
+    }
+  }
+
+  /**
+   * Stop capturing, drain queued spans and shut down every exporter
+   * Spans captured afterwards are ignored. Resolves after `timeoutMs` at the latest.
+   */
+  async shutdown(options: ShutdownOptions = {}): Promise<void> {
+    if (!this.pipeline) return;
+
+    this.selfReporter?.stop();
+
+    const timeoutMs = options.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const timedOut = await Promise.race([
+      Promise.all([this.retiringPipeline, this.pipeline.shutdown()]).then(() => false),
+      new Promise<boolean>((resolve) => {
+        timeoutId = setTimeout(() => resolve(true), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timeoutId);
+
+    if (timedOut) {
+      warn(`Shutdown timed out after ${timeoutMs}ms with ${this.getTransport().getPendingCount()} span(s) still queued`);
+    } else {
+      debug('SDK shut down');
+    }
+  }
+
+  /**
+   * Get transport stats (delivery counters, last error, latency, queue size, throttling)
+   */
+  getStats(): TransportStats {
+    return this.getTransport().getStats();
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Drain the current pipeline in the background before init() replaces it,
+   * so spans queued under the previous config aren't orphaned
+   */
+  private retirePipeline(): void {
+    const pipeline = this.pipeline;
+    this.selfReporter?.stop();
+    this.selfReporter = null;
+    this.transport = null;
+    this.pipeline = null;
+    // Already shut down (or disabled): nothing left to drain
+    if (!pipeline?.isEnabled()) return;
+
+    const retiring: Promise<void> = Promise.all([this.retiringPipeline, pipeline.shutdown()])
+      .catch((err) => warn('Previous pipeline failed to shut down', err instanceof Error ? err.message : err))
+      .then(() => {
+        if (this.retiringPipeline === retiring) this.retiringPipeline = null;
+      });
+    this.retiringPipeline = retiring;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Active Client
+// ─────────────────────────────────────────────────────────────
+
+// Use global symbols to ensure single instances across all entry points
+// (bundler splitting would otherwise give @lelemondev/sdk and
+// @lelemondev/sdk/bedrock separate default clients)
+const DEFAULT_CLIENT_KEY = Symbol.for('@lelemondev/sdk:defaultClient');
+const CLIENT_STORAGE_KEY = Symbol.for('@lelemondev/sdk:clientStorage');
+
+function getClientStorage(): AsyncLocalStorage<LelemonClient> {
+  const globalObj = globalThis as Record<symbol, AsyncLocalStorage<LelemonClient> | undefined>;
+  if (!globalObj[CLIENT_STORAGE_KEY]) {
+    globalObj[CLIENT_STORAGE_KEY] = new AsyncLocalStorage<LelemonClient>();
+  }
+  return globalObj[CLIENT_STORAGE_KEY];
+}
+
+const clientStorage = getClientStorage();
+
+/**
+ * The client behind the top-level functions
+ */
+export function getDefaultClient(): LelemonClient {
+  const globalObj = globalThis as Record<symbol, LelemonClient | undefined>;
+  if (!globalObj[DEFAULT_CLIENT_KEY]) {
+    globalObj[DEFAULT_CLIENT_KEY] = new LelemonClient();
+  }
+  return globalObj[DEFAULT_CLIENT_KEY];
+}
+
+/**
+ * The default client, if anything created it yet
+ */
+export function findDefaultClient(): LelemonClient | undefined {
+  return (globalThis as Record<symbol, LelemonClient | undefined>)[DEFAULT_CLIENT_KEY];
+}
+
+/**
+ * The client capturing spans right now: the one whose observe()/trace()/span()
+ * we're running in, otherwise the default client
+ */
+export function getActiveClient(): LelemonClient {
+  return clientStorage.getStore() ?? getDefaultClient();
+}
+
+/**
+ * Like getActiveClient(), without creating the default client
+ */
+export function findActiveClient(): LelemonClient | undefined {
+  return clientStorage.getStore() ?? findDefaultClient();
+}
+
+// ─────────────────────────────────────────────────────────────
+// Client Binding
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Proxy a wrapped LLM client so every call runs with `owner` as the active client
+ * Returned objects and streams stay bound, so spans captured later still go to `owner`
+ */
+export function bindToClient<T>(target: T, owner: LelemonClient): T {
+  return bindCalls(target, (fn) => owner.run(fn));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Keep the options updateConfig() can apply; report every other key instead of ignoring it silently
+ */
+function splitRuntimeConfig(partial: LelemonConfig): { runtime: RuntimeConfig; rejected: ConfigDiagnostic[] } {
+  const runtime: Record<string, unknown> = {};
+  const rejected: ConfigDiagnostic[] = [];
+
+  for (const [key, value] of Object.entries(partial)) {
+    if (Object.prototype.hasOwnProperty.call(RUNTIME_CONFIG_KEYS, key)) {
+      runtime[key] = value;
+    } else {
+      rejected.push({
+        field: key,
+        problem: "can't be changed at runtime and was ignored",
+        fix: 'Pass it to init() instead',
+      });
+    }
+  }
+
+  return { runtime: runtime as RuntimeConfig, rejected };
+}
+
+/**
+ * Whether two configs hold the same options
+ * Functions, exporters and other instances compare by reference; plain objects, arrays and patterns by value
+ */
+function isSameConfig(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof RegExp && b instanceof RegExp) return a.toString() === b.toString();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameConfig(item, b[index]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+  const otherKeys = Object.keys(b).filter((key) => b[key] !== undefined);
+  return keys.length === otherKeys.length && keys.every((key) => isSameConfig(a[key], b[key]));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Create transport instance
+ */
+function createTransport(config: LelemonConfig): Transport {
+  const apiKey = config.apiKey;
+
+  if (!apiKey && !config.routeSpan && !config.disabled && !config.exporters?.length) {
+    warn('No API key provided. Only spans with a projectKey are sent; set apiKey in init() or LELEMON_API_KEY env var.');
+  }
+
+  return new Transport({
+    apiKey: apiKey ?? '',
+    endpoint: config.endpoint ?? DEFAULT_ENDPOINT,
+    debug: config.debug ?? false,
+    // Stays enabled without a default key: trace() and observe() can still set a projectKey
+    disabled: config.disabled ?? false,
+    batchSize: config.batchSize,
+    maxBatchBytes: config.maxBatchBytes,
+    deliveryMode: config.deliveryMode,
+    traceHoldMs: config.traceHoldMs,
+    flushIntervalMs: config.flushIntervalMs,
+    requestTimeoutMs: config.requestTimeoutMs,
+    maxRetries: config.retry?.maxRetries,
+    retryInitialDelayMs: config.retry?.initialDelayMs,
+    retryMaxDelayMs: config.retry?.maxDelayMs,
+    maxQueueSize: config.maxQueueSize,
+    maxQueueBytes: config.maxQueueBytes,
+    queueOverflowPolicy: config.queueOverflowPolicy,
+    compression: config.compression,
+    compressionThresholdBytes: config.compressionThresholdBytes,
+    circuitBreaker: config.circuitBreaker,
+    spool: config.spool,
+    hooks: config,
+    fetch: config.fetch,
+    headers: config.headers,
+    proxy: config.proxy,
+    routeSpan: config.routeSpan,
+  });
+}
+
+/**
+ * Create export pipeline: the HTTP transport is the default exporter,
+ * custom exporters run alongside it with the same batching and queue settings
+ */
+function createPipeline(config: LelemonConfig, transport: Transport): ExportPipeline {
+  if (config.disabled) {
+    return new ExportPipeline([]);
+  }
+
+  const exporters = (config.exporters ?? []).map(
+    (exporter) => new BatchExporter(exporter, {
+      batchSize: config.batchSize,
+      flushIntervalMs: config.flushIntervalMs,
+      maxQueueSize: config.maxQueueSize,
+      maxQueueBytes: config.maxQueueBytes,
+      queueOverflowPolicy: config.queueOverflowPolicy,
+      hooks: config,
+    })
+  );
+
+  return new ExportPipeline([transport, ...exporters], { tailSampling: config.tailSampling, hooks: config });
+}
+
+/**
+ * Create the periodic stats reporter, if enabled
+ */
+function createSelfReporter(config: LelemonConfig, transport: Transport, pipeline: ExportPipeline): SelfReporter | null {
+  if (config.disabled || !config.selfReportIntervalMs) {
+    return null;
+  }
+
+  return new SelfReporter(
+    config.selfReportIntervalMs,
+    () => transport.getStats(),
+    (span) => pipeline.enqueue(span)
+  );
+}
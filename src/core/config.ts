@@ -1,88 +1,63 @@
 /**
  * Global Configuration
  *
- * Manages SDK configuration and transport instance.
+ * Top-level SDK functions, backed by the default client.
+ * Internal lookups (config, telemetry, pipeline) resolve to the client
+ * capturing spans right now, so `new Lelemon()` instances stay independent.
  */
 
-import type { LelemonConfig, SDKTelemetry } from './types';
-import { Transport } from './transport';
-import { setDebug, info, warn, debug } from './logger';
-import { buildTelemetry } from './telemetry';
-
-// ─────────────────────────────────────────────────────────────
-// Global State
-// ─────────────────────────────────────────────────────────────
-
-let globalConfig: LelemonConfig = {};
-let globalTransport: Transport | null = null;
-let globalTelemetry: SDKTelemetry | null = null;
-let initialized = false;
+import type { LelemonConfig, RuntimeConfig, SDKTelemetry, ShutdownOptions } from './types';
+import type { Transport, TransportStats } from './transport';
+import type { ExportPipeline } from './exporter';
+import { getActiveClient, findActiveClient, getDefaultClient, findDefaultClient } from './client';
 
 // ─────────────────────────────────────────────────────────────
 // Configuration
 // ─────────────────────────────────────────────────────────────
 
-const DEFAULT_ENDPOINT = 'https://api.lelemon.dev';
-
 /**
  * Initialize the SDK
  * Call once at app startup
  */
-export function init(config: LelemonConfig = {}): void {
-  globalConfig = config;
-
-  // Configure debug mode
-  if (config.debug) {
-    setDebug(true);
-  }
-
-  // Build telemetry with service config
-  globalTelemetry = buildTelemetry(config.service);
-
-  info('Initializing SDK', {
-    endpoint: config.endpoint ?? DEFAULT_ENDPOINT,
-    debug: config.debug ?? false,
-    disabled: config.disabled ?? false,
-    telemetry: globalTelemetry,
-  });
-
-  globalTransport = createTransport(config);
-  initialized = true;
+export function init(options: LelemonConfig = {}): void {
+  getDefaultClient().init(options);
+}
 
-  // Log status after transport is created
-  if (globalTransport.isEnabled()) {
-    info('SDK initialized - tracing enabled');
-  } else {
-    debug('SDK initialized - tracing disabled (no API key or explicitly disabled)');
-  }
+/**
+ * Change redaction, content capture, sampling, service metadata, debug or endpoint at runtime
+ * Keeps the transport and its queue: spans already queued go to the new endpoint.
+ * Redaction and sampling apply to spans captured from now on.
+ */
+export function updateConfig(partial: RuntimeConfig): void {
+  getDefaultClient().updateConfig(partial);
 }
 
 /**
  * Get current config
  */
 export function getConfig(): LelemonConfig {
-  return globalConfig;
+  return getActiveClient().getConfig();
 }
 
 /**
  * Get SDK telemetry
  */
 export function getTelemetry(): SDKTelemetry | null {
-  return globalTelemetry;
+  return findActiveClient()?.getTelemetry() ?? null;
 }
 
 /**
  * Check if SDK is initialized
  */
 export function isInitialized(): boolean {
-  return initialized;
+  return getDefaultClient().isInitialized();
 }
 
 /**
  * Check if SDK is enabled
  */
 export function isEnabled(): boolean {
-  return getTransport().isEnabled();
+  return getDefaultClient().isEnabled();
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -93,48 +68,34 @@ export function isEnabled(): boolean {
  * Get or create transport instance
  */
 export function getTransport(): Transport {
-  if (!globalTransport) {
-    globalTransport = createTransport(globalConfig);
-  }
-  return globalTransport;
+  return getActiveClient().getTransport();
+}
+
+/**
+ * Get or create the export pipeline (HTTP transport + custom exporters)
+ */
+export function getPipeline(): ExportPipeline {
+  return getActiveClient().getPipeline();
 }
 
 /**
  * Flush all pending traces
  */
 export async function flush(): Promise<void> {
-  if (globalTransport) {
-    await globalTransport.flush();
-  }
+  await findDefaultClient()?.flush();
 }
 
 /**
- * Create transport instance
+ * Stop capturing, drain queued spans and shut down every exporter
+ * Spans captured afterwards are ignored. Resolves after `timeoutMs` at the latest.
  */
-function createTransport(config: LelemonConfig): Transport {
-  const apiKey = config.apiKey ?? getEnvVar('LELEMON_API_KEY');
-
-  if (!apiKey && !config.disabled) {
-    warn('No API key provided. Set apiKey in init() or LELEMON_API_KEY env var. Tracing disabled.');
-  }
-
-  return new Transport({
-    apiKey: apiKey ?? '',
-    endpoint: config.endpoint ?? DEFAULT_ENDPOINT,
-    debug: config.debug ?? false,
-    disabled: config.disabled ?? !apiKey,
-    batchSize: config.batchSize,
-    flushIntervalMs: config.flushIntervalMs,
-    requestTimeoutMs: config.requestTimeoutMs,
-  });
+export async function shutdown(options: ShutdownOptions = {}): Promise<void> {
+  await findDefaultClient()?.shutdown(options);
 }
 
 /**
- * Get environment variable (works in Node and edge)
+ * Get transport stats (delivery counters, last error, latency, queue size, throttling)
  */
-function getEnvVar(name: string): string | undefined {
-  if (typeof process !== 'undefined' && process.env) {
-    return process.env[name];
-  }
-  return undefined;
+export function getStats(): TransportStats {
+  return getDefaultClient().getStats();
 }
@@ -0,0 +1,109 @@
+/**
+ * Content Capture
+ *
+ * Metadata-only privacy mode: `captureContent` decides whether prompt and
+ * completion content leaves the process.
+ * - undefined: capture everything (default)
+ * - 'input' / 'output': capture only that side
+ * - false: capture neither; latency, token, model and error telemetry stay
+ *
+ * The setting can come from init(), observe() and trace(); the most
+ * restrictive one wins, so a nested trace can't re-enable what an outer
+ * level turned off.
+ *
+ * Raw responses keep their shape for server-side extraction (usage, model,
+ * finish reasons, tool names); only text and argument payloads are removed.
+ */
+
+import type { CaptureContent } from './types';
+
+// ─────────────────────────────────────────────────────────────
+// Policy
+// ─────────────────────────────────────────────────────────────
+
+export interface ContentPolicy {
+  input: boolean;
+  output: boolean;
+}
+
+/**
+ * Combine settings from every level; content is kept only where all allow it
+ */
+export function mergeCaptureContent(...modes: Array<CaptureContent | undefined>): CaptureContent | undefined {
+  const { input, output } = resolveContentPolicy(...modes);
+  if (input && output) return undefined;
+  if (input) return 'input';
+  if (output) return 'output';
+  return false;
+}
+
+/**
+ * What may be captured under the given settings
+ */
+export function resolveContentPolicy(...modes: Array<CaptureContent | undefined>): ContentPolicy {
+  return {
+    input: modes.every((mode) => mode === undefined || mode === 'input'),
+    output: modes.every((mode) => mode === undefined || mode === 'output'),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Raw Response Stripping
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Keys whose whole value is prompt/completion payload, across provider shapes
+ * (text blocks, tool arguments, reasoning, embeddings, Bedrock model bodies)
+ */
+const PAYLOAD_KEYS = new Set([
+  'text',
+  'arguments',
+  'args',
+  'input',
+  'partial_json',
+  'thinking',
+  'refusal',
+  'instructions',
+  'output_text',
+  'outputText',
+  'completion',
+  'generation',
+  'generated_text',
+  'embedding',
+  'bytes',
+  'b64_json',
+  'inlineData',
+  'executableCode',
+  'codeExecutionResult',
+]);
+
+/** Container keys holding text directly in some shapes (OpenAI message.content, stream deltas) */
+const TEXT_CONTAINER_KEYS = new Set(['content', 'delta', 'output', 'reasoning', 'summary', 'message']);
+
+const MAX_DEPTH = 20;
+
+/**
+ * Copy of a raw provider response without text content
+ * Usage, model, ids, roles, finish/stop reasons and tool names are kept
+ */
+export function stripContent(value: unknown, depth = 0): unknown {
+  if (depth > MAX_DEPTH || value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => stripContent(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (PAYLOAD_KEYS.has(key)) {
+      result[key] = null;
+    } else if (TEXT_CONTAINER_KEYS.has(key) && typeof item === 'string') {
+      result[key] = null;
+    } else {
+      result[key] = stripContent(item, depth + 1);
+    }
+  }
+  return result;
+}
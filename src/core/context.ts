@@ -20,10 +20,16 @@
  */
 
 import { AsyncLocalStorage } from 'async_hooks';
-import { getTransport } from './config';
+import { getPipeline, getConfig } from './config';
 import { getGlobalContext } from './capture';
+import { shouldSample } from './sampling';
+import { setProjectKey } from './routing';
+import { generateId } from './id';
+import { mergeCaptureContent, resolveContentPolicy } from './content';
 import { debug } from './logger';
-import type { CreateTraceRequest, SpanType } from './types';
+import type { CaptureContent, CreateTraceRequest, SpanType } from './types';
+
+export { generateId };
 
 // ─────────────────────────────────────────────────────────────
 // Types
@@ -56,8 +62,14 @@ export interface TraceContext {
   sessionId?: string;
   /** User ID for filtering by user */
   userId?: string;
+  /** Project API key every span in this trace is sent with */
+  projectKey?: string;
+  /** Content restriction for every span in this trace, combined with outer traces */
+  captureContent?: CaptureContent;
   /** Map of toolCallId → llmSpanId for linking tool spans to their parent LLM */
   pendingToolCalls: Map<string, string>;
+  /** Head sampling decision, made once per trace and inherited by every span in it */
+  sampled: boolean;
 }
 
 export interface TraceOptions {
@@ -111,6 +123,17 @@ export interface TraceOptions {
    * Useful for multi-tenant servers where each request has different context.
    */
   userId?: string;
+  /**
+   * API key of the Lelemon project this trace is sent to (multi-project routing).
+   * Nested traces inherit it.
+   */
+  projectKey?: string;
+  /**
+   * Metadata-only mode for this trace: false drops prompts and completions,
+   * 'input' / 'output' keeps one side. Can only restrict what init() and
+   * outer traces allow.
+   */
+  captureContent?: CaptureContent;
 }
 
 export interface SpanOptions {
@@ -153,22 +176,6 @@ function getTraceStorage(): AsyncLocalStorage<TraceContext> {
 
 const traceStorage = getTraceStorage();
 
-// ─────────────────────────────────────────────────────────────
-// ID Generation
-// ─────────────────────────────────────────────────────────────
-
-/**
- * Generate a unique trace/span ID
- * Uses crypto.randomUUID if available, falls back to timestamp-based ID
- */
-export function generateId(): string {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  // Fallback for older Node.js versions
-  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
-}
-
 // ─────────────────────────────────────────────────────────────
 // Context API
 // ─────────────────────────────────────────────────────────────
@@ -281,6 +288,19 @@ export async function trace<T>(
   const parentContext = getTraceContext();
   const traceId = parentContext?.traceId ?? generateId();
   const rootSpanId = generateId();
+  const globalContext = getGlobalContext();
+
+  // Nested traces follow the outer decision so a trace is never partly sampled
+  const sampled = parentContext
+    ? parentContext.sampled
+    : shouldSample({
+        model: options.name,
+        provider: 'agent',
+        name: options.name,
+        userId: options.userId ?? globalContext.userId,
+        sessionId: options.sessionId ?? globalContext.sessionId,
+        tags: options.tags ?? globalContext.tags,
+      });
 
   const context: TraceContext = {
     traceId,
@@ -296,7 +316,10 @@ export async function trace<T>(
     outputTransform: options.outputTransform,
     sessionId: options.sessionId,
     userId: options.userId,
+    projectKey: options.projectKey ?? parentContext?.projectKey,
+    captureContent: mergeCaptureContent(parentContext?.captureContent, options.captureContent),
     pendingToolCalls: new Map(),
+    sampled,
   };
 
   // Run the function within the trace context
@@ -372,17 +395,21 @@ function extractOutput(
  * This span represents the entire agent execution with input/output.
  */
 function sendRootSpan(context: TraceContext, result?: unknown, error?: Error): void {
-  const transport = getTransport();
+  const transport = getPipeline();
   if (!transport.isEnabled()) {
     debug('Transport disabled, skipping root span');
     return;
   }
 
+  if (!context.sampled) return;
+
   const globalContext = getGlobalContext();
   const durationMs = Date.now() - context.startTime;
 
+  const content = resolveContentPolicy(getConfig().captureContent, globalContext.captureContent, context.captureContent);
+
   // Extract clean output for display
-  const output = error ? null : extractOutput(result, context.outputKey, context.outputTransform);
+  const output = error ? null : content.output ? extractOutput(result, context.outputKey, context.outputTransform) : undefined;
 
   const rootSpan: CreateTraceRequest = {
     spanType: 'agent' as SpanType,
@@ -392,7 +419,7 @@ function sendRootSpan(context: TraceContext, result?: unknown, error?: Error): v
     traceId: context.traceId,
     spanId: context.rootSpanId,
     parentSpanId: context.parentSpanId,
-    input: context.input,
+    input: content.input ? context.input : undefined,
     output,
     inputTokens: 0,  // Will be aggregated from children
     outputTokens: 0,
@@ -409,6 +436,8 @@ function sendRootSpan(context: TraceContext, result?: unknown, error?: Error): v
     tags: context.tags ?? globalContext.tags,
   };
 
+  setProjectKey(rootSpan, context.projectKey ?? globalContext.projectKey);
+
   debug(`Sending root span: ${context.name}`, { durationMs, hasError: !!error });
   transport.enqueue(rootSpan);
 }
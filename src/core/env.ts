@@ -0,0 +1,224 @@
+/**
+ * Environment Configuration
+ *
+ * Reads every scalar LelemonConfig field from LELEMON_* environment variables,
+ * so services can be configured without code changes.
+ * Precedence: init() arguments > environment variables > defaults.
+ *
+ * Values that don't parse are ignored with a warning. Function and object
+ * options (exporters, hooks, fetch, routeSpan, redaction patterns, tail
+ * sampling rule) can only be set in init().
+ */
+
+import type { LelemonConfig } from './types';
+import { warn } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Parsers
+// ─────────────────────────────────────────────────────────────
+
+/** Parsed value, or a description of what was expected when the value is invalid */
+type Parser = (value: string) => { value: unknown } | { expected: string };
+
+const text: Parser = (value) => ({ value });
+
+const boolean: Parser = (value) => {
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) return { value: true };
+  if (['false', '0', 'no', 'off'].includes(normalized)) return { value: false };
+  return { expected: 'true or false' };
+};
+
+function integer(min: number): Parser {
+  return (value) => {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= min
+      ? { value: parsed }
+      : { expected: `an integer >= ${min}` };
+  };
+}
+
+const ratio: Parser = (value) => {
+  const parsed = Number(value);
+  return value.trim() !== '' && parsed >= 0 && parsed <= 1
+    ? { value: parsed }
+    : { expected: 'a number between 0 and 1' };
+};
+
+function oneOf(...options: string[]): Parser {
+  return (value) => (options.includes(value) ? { value } : { expected: options.join(' | ') });
+}
+
+const list: Parser = (value) => ({
+  value: value.split(',').map((item) => item.trim()).filter(Boolean),
+});
+
+/** `key=value,key2=value2` (OTEL_EXPORTER_OTLP_HEADERS style) */
+const headers: Parser = (value) => {
+  const result: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const index = pair.indexOf('=');
+    if (index <= 0) return { expected: 'key=value pairs separated by commas' };
+    result[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+  }
+  return { value: result };
+};
+
+const compression: Parser = (value) =>
+  value === 'false' ? { value: false } : oneOf('gzip', 'deflate', 'false')(value);
+
+/** 'true' captures everything (the default), 'false' nothing */
+const captureContent: Parser = (value) => {
+  if (value === 'true') return { value: undefined };
+  if (value === 'false') return { value: false };
+  return oneOf('input', 'output', 'true', 'false')(value);
+};
+
+/** 'false' disables the feature, anything else is left to the nested variables */
+const disableFlag: Parser = (value) => {
+  const parsed = boolean(value);
+  if ('expected' in parsed) return parsed;
+  return parsed.value ? { value: undefined } : { value: false };
+};
+
+// ─────────────────────────────────────────────────────────────
+// Variables
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Every supported variable, the config path it sets and how it's parsed
+ * Kept in README order - update the Environment Variables table with it
+ */
+const ENV_VARS: ReadonlyArray<readonly [name: string, path: string, parse: Parser]> = [
+  ['LELEMON_API_KEY', 'apiKey', text],
+  ['LELEMON_ENDPOINT', 'endpoint', text],
+  ['LELEMON_DEBUG', 'debug', boolean],
+  ['LELEMON_DISABLED', 'disabled', boolean],
+  ['LELEMON_STRICT', 'strict', boolean],
+  ['LELEMON_BATCH_SIZE', 'batchSize', integer(1)],
+  ['LELEMON_MAX_BATCH_BYTES', 'maxBatchBytes', integer(1)],
+  ['LELEMON_DELIVERY_MODE', 'deliveryMode', oneOf('span', 'trace')],
+  ['LELEMON_TRACE_HOLD_MS', 'traceHoldMs', integer(0)],
+  ['LELEMON_FLUSH_INTERVAL_MS', 'flushIntervalMs', integer(0)],
+  ['LELEMON_REQUEST_TIMEOUT_MS', 'requestTimeoutMs', integer(1)],
+  ['LELEMON_HEADERS', 'headers', headers],
+  ['LELEMON_PROXY', 'proxy', text],
+  ['LELEMON_MAX_QUEUE_SIZE', 'maxQueueSize', integer(1)],
+  ['LELEMON_MAX_QUEUE_BYTES', 'maxQueueBytes', integer(1)],
+  ['LELEMON_QUEUE_OVERFLOW_POLICY', 'queueOverflowPolicy', oneOf('drop-newest', 'drop-oldest', 'drop-non-error')],
+  ['LELEMON_COMPRESSION', 'compression', compression],
+  ['LELEMON_COMPRESSION_THRESHOLD_BYTES', 'compressionThresholdBytes', integer(0)],
+  ['LELEMON_RETRY_MAX_RETRIES', 'retry.maxRetries', integer(0)],
+  ['LELEMON_RETRY_INITIAL_DELAY_MS', 'retry.initialDelayMs', integer(0)],
+  ['LELEMON_RETRY_MAX_DELAY_MS', 'retry.maxDelayMs', integer(0)],
+  ['LELEMON_SAMPLING', 'sampling', ratio],
+  ['LELEMON_TAIL_SAMPLING_KEEP_ERRORS', 'tailSampling.keepErrors', boolean],
+  ['LELEMON_TAIL_SAMPLING_MIN_DURATION_MS', 'tailSampling.minDurationMs', integer(0)],
+  ['LELEMON_TAIL_SAMPLING_MIN_TOTAL_TOKENS', 'tailSampling.minTotalTokens', integer(0)],
+  ['LELEMON_TAIL_SAMPLING_TAGS', 'tailSampling.tags', list],
+  ['LELEMON_TAIL_SAMPLING_FALLBACK_RATIO', 'tailSampling.fallbackRatio', ratio],
+  ['LELEMON_TAIL_SAMPLING_MAX_BUFFERED_SPANS', 'tailSampling.maxBufferedSpans', integer(1)],
+  ['LELEMON_TAIL_SAMPLING_MAX_TRACE_AGE_MS', 'tailSampling.maxTraceAgeMs', integer(1)],
+  ['LELEMON_SELF_REPORT_INTERVAL_MS', 'selfReportIntervalMs', integer(1)],
+  ['LELEMON_CIRCUIT_BREAKER', 'circuitBreaker', disableFlag],
+  ['LELEMON_CIRCUIT_BREAKER_FAILURE_THRESHOLD', 'circuitBreaker.failureThreshold', integer(1)],
+  ['LELEMON_CIRCUIT_BREAKER_RESET_TIMEOUT_MS', 'circuitBreaker.resetTimeoutMs', integer(1)],
+  ['LELEMON_CIRCUIT_BREAKER_MAX_RESET_TIMEOUT_MS', 'circuitBreaker.maxResetTimeoutMs', integer(1)],
+  ['LELEMON_CIRCUIT_BREAKER_QUEUE_POLICY', 'circuitBreaker.queuePolicy', oneOf('keep', 'drop')],
+  ['LELEMON_SPOOL_DIRECTORY', 'spool.directory', text],
+  ['LELEMON_SPOOL_MAX_BYTES', 'spool.maxBytes', integer(1)],
+  ['LELEMON_SPOOL_MAX_SEGMENT_BYTES', 'spool.maxSegmentBytes', integer(1)],
+  ['LELEMON_SERVICE_NAME', 'service.name', text],
+  ['LELEMON_SERVICE_VERSION', 'service.version', text],
+  ['LELEMON_ENVIRONMENT', 'service.environment', text],
+  ['LELEMON_REDACT_EMAILS', 'redaction.emails', boolean],
+  ['LELEMON_REDACT_PHONES', 'redaction.phones', boolean],
+  ['LELEMON_REDACT_KEYS', 'redaction.keys', list],
+  ['LELEMON_CAPTURE_CONTENT', 'captureContent', captureContent],
+];
+
+/** Nested config objects merged field by field */
+const NESTED_KEYS = ['retry', 'tailSampling', 'circuitBreaker', 'spool', 'service', 'redaction'] as const;
+
+// ─────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Build a config from LELEMON_* environment variables
+ * Invalid values are skipped with a warning
+ */
+export function readEnvConfig(): LelemonConfig {
+  const config: Record<string, unknown> = {};
+
+  for (const [name, path, parse] of ENV_VARS) {
+    const raw = getEnvVar(name);
+    if (raw === undefined || raw === '') continue;
+
+    const parsed = parse(raw);
+    if ('expected' in parsed) {
+      // The value itself isn't logged: it may hold a key or token
+      warn(`Ignoring ${name}: expected ${parsed.expected}`);
+      continue;
+    }
+    if (parsed.value === undefined) continue;
+
+    const [key, field] = path.split('.');
+    if (!field) {
+      config[key] = parsed.value;
+    } else if (config[key] !== false) {
+      config[key] = { ...(config[key] as Record<string, unknown> | undefined), [field]: parsed.value };
+    }
+  }
+
+  return config as LelemonConfig;
+}
+
+/**
+ * Layer init() arguments over environment variables
+ * Nested objects merge field by field; `false` (e.g. circuitBreaker) replaces the whole object
+ */
+export function resolveConfig(config: LelemonConfig): LelemonConfig {
+  const env = readEnvConfig() as Record<string, unknown>;
+  const explicit = config as Record<string, unknown>;
+  const resolved: Record<string, unknown> = { ...env };
+
+  for (const [key, value] of Object.entries(explicit)) {
+    if (value === undefined) continue;
+
+    const envValue = env[key];
+    const isNested = (NESTED_KEYS as readonly string[]).includes(key);
+    resolved[key] = isNested && isPlainObject(value) && isPlainObject(envValue)
+      ? { ...envValue, ...withoutUndefined(value) }
+      : value;
+  }
+
+  // A spool needs a directory; don't half-configure one from env size limits alone
+  if (isPlainObject(resolved.spool) && !resolved.spool.directory) {
+    delete resolved.spool;
+  }
+
+  return resolved as LelemonConfig;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withoutUndefined(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * Get environment variable (works in Node and edge)
+ */
+function getEnvVar(name: string): string | undefined {
+  if (typeof process !== 'undefined' && process.env) {
+    return process.env[name];
+  }
+  return undefined;
+}
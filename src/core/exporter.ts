@@ -0,0 +1,338 @@
+/**
+ * Export Pipeline
+ *
+ * Fans captured spans out to every configured sink:
+ * - The Lelemon HTTP transport (default exporter, batches on its own)
+ * - Custom SpanExporters from `init({ exporters })`, batched here with one export
+ *   in flight at a time and the same queue bounds as the transport
+ *
+ * With `tailSampling`, spans are held per trace and only kept traces reach the sinks.
+ *
+ * Exporter failures are logged and isolated - one sink can never break another
+ * or the calling LLM request. Each custom exporter gets its own copy of every span,
+ * so one that modifies spans can't change what the other sinks send.
+ */
+
+import type { CreateTraceRequest, LelemonHooks, QueueOverflowPolicy, SpanExporter, TailSamplingConfig } from './types';
+import {
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_FLUSH_INTERVAL_MS,
+  DEFAULT_MAX_QUEUE_SIZE,
+  DEFAULT_MAX_QUEUE_BYTES,
+  DEFAULT_QUEUE_OVERFLOW_POLICY,
+} from './transport';
+import { SpanQueue } from './queue';
+import { exporterError, spansDropped } from './logger';
+import { TailSampler } from './tail-sampling';
+import { callHook } from './hooks';
+import { generateId } from './id';
+
+// ─────────────────────────────────────────────────────────────
+// Capture Time
+// ─────────────────────────────────────────────────────────────
+
+// Spans carry durations, not timestamps; remember when each one entered the
+// pipeline so exporters that need absolute times (OTLP) can reconstruct them.
+// Use a global symbol so @lelemondev/sdk/exporters, bundled separately from
+// the pipeline, reads the same map
+const CAPTURE_TIMES_KEY = Symbol.for('@lelemondev/sdk:captureTimes');
+
+function getCaptureTimes(): WeakMap<CreateTraceRequest, number> {
+  const globalObj = globalThis as Record<symbol, WeakMap<CreateTraceRequest, number> | undefined>;
+  if (!globalObj[CAPTURE_TIMES_KEY]) {
+    globalObj[CAPTURE_TIMES_KEY] = new WeakMap<CreateTraceRequest, number>();
+  }
+  return globalObj[CAPTURE_TIMES_KEY];
+}
+
+const captureTimes = getCaptureTimes();
+
+/**
+ * When a span was captured (epoch ms), if it went through the pipeline
+ */
+export function getCaptureTime(trace: CreateTraceRequest): number | undefined {
+  return captureTimes.get(trace);
+}
+
+/**
+ * Deep copy of a span that keeps its capture time
+ * Falls back to a JSON copy for values structuredClone rejects (e.g. functions in metadata)
+ */
+function copySpan(trace: CreateTraceRequest): CreateTraceRequest {
+  let copy: CreateTraceRequest;
+  try {
+    copy = structuredClone(trace);
+  } catch {
+    copy = JSON.parse(JSON.stringify(trace)) as CreateTraceRequest;
+  }
+
+  const capturedAt = captureTimes.get(trace);
+  if (capturedAt !== undefined) captureTimes.set(copy, capturedAt);
+  return copy;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Sink
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Internal span sink (the HTTP Transport and BatchExporter implement this)
+ */
+export interface SpanSink {
+  isEnabled(): boolean;
+  enqueue(trace: CreateTraceRequest): void;
+  flush(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+interface BatchExporterConfig {
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxQueueSize?: number;
+  maxQueueBytes?: number;
+  queueOverflowPolicy?: QueueOverflowPolicy;
+  hooks?: LelemonHooks;
+}
+
+interface ExportPipelineOptions {
+  tailSampling?: TailSamplingConfig;
+  hooks?: LelemonHooks;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Batch Exporter
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Buffers spans for a custom SpanExporter and hands them over in batches
+ * One export runs at a time; spans captured meanwhile wait in a bounded queue,
+ * so a slow or hung exporter can't pile up requests or memory
+ */
+export class BatchExporter implements SpanSink {
+  private readonly exporter: SpanExporter;
+  private readonly config: Required<Omit<BatchExporterConfig, 'hooks'>>;
+  private readonly hooks: LelemonHooks;
+  private readonly queue: SpanQueue;
+  private inFlight: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private droppedSpans = 0;
+  private overflowing = false;
+  private closed = false;
+
+  constructor(exporter: SpanExporter, config: BatchExporterConfig = {}) {
+    this.exporter = exporter;
+    this.config = {
+      batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
+      flushIntervalMs: config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS,
+      maxQueueSize: config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE,
+      maxQueueBytes: config.maxQueueBytes ?? DEFAULT_MAX_QUEUE_BYTES,
+      queueOverflowPolicy: config.queueOverflowPolicy ?? DEFAULT_QUEUE_OVERFLOW_POLICY,
+    };
+    this.hooks = config.hooks ?? {};
+    this.queue = new SpanQueue({
+      maxSize: this.config.maxQueueSize,
+      maxBytes: this.config.maxQueueBytes,
+      policy: this.config.queueOverflowPolicy,
+    });
+  }
+
+  isEnabled(): boolean {
+    return !this.closed;
+  }
+
+  enqueue(trace: CreateTraceRequest): void {
+    if (this.closed) return;
+
+    // The exporter may modify its spans; the transport and other exporters keep the original
+    this.recordDropped(this.queue.push(copySpan(trace)));
+
+    if (this.queue.length >= this.config.batchSize) {
+      this.exportQueued();
+    } else {
+      this.scheduleExport();
+    }
+  }
+
+  async flush(): Promise<void> {
+    while (this.inFlight || this.queue.length > 0) {
+      this.exportQueued();
+      await this.inFlight;
+    }
+
+    if (this.exporter.forceFlush) {
+      await this.guard(() => this.exporter.forceFlush!());
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.closed = true;
+    await this.flush();
+    await this.guard(() => this.exporter.shutdown());
+  }
+
+  /**
+   * Spans dropped because the queue was full
+   */
+  getDroppedSpans(): number {
+    return this.droppedSpans;
+  }
+
+  private scheduleExport(): void {
+    if (this.flushTimer !== null) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.exportQueued();
+    }, this.config.flushIntervalMs);
+  }
+
+  /**
+   * Hand the next batch to the exporter, unless an export is still running
+   */
+  private exportQueued(): void {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.inFlight || this.queue.length === 0) return;
+
+    const batch = this.queue.drain(this.config.batchSize);
+
+    const startTime = Date.now();
+    this.inFlight = this.guard(() => this.exporter.export(batch), batch)
+      .then((exported) => {
+        if (exported) {
+          callHook('onBatchSent', this.hooks.onBatchSent, {
+            exporter: this.exporter.name ?? 'custom',
+            spans: batch,
+            durationMs: Date.now() - startTime,
+          });
+        }
+      })
+      .finally(() => {
+        this.inFlight = null;
+        // Spans queued while this batch was exporting
+        if (this.queue.length >= this.config.batchSize) {
+          this.exportQueued();
+        } else if (this.queue.length > 0) {
+          this.scheduleExport();
+        }
+      });
+  }
+
+  /**
+   * Account for spans evicted by the queue's overflow policy
+   */
+  private recordDropped(dropped: CreateTraceRequest[]): void {
+    if (dropped.length === 0) {
+      this.overflowing = false;
+      return;
+    }
+
+    this.droppedSpans += dropped.length;
+
+    // Warn once per overflow episode, not once per span
+    if (!this.overflowing) {
+      this.overflowing = true;
+      spansDropped(dropped.length, this.config.queueOverflowPolicy, this.droppedSpans, `Exporter ${this.exporter.name ?? 'custom'} queue full`);
+    }
+  }
+
+  /**
+   * Run an exporter call, logging and reporting failures
+   * Resolves to false when it threw
+   */
+  private async guard(fn: () => Promise<void> | void, spans: CreateTraceRequest[] = []): Promise<boolean> {
+    try {
+      await fn();
+      return true;
+    } catch (err) {
+      const name = this.exporter.name ?? 'custom';
+      exporterError(name, err);
+      callHook('onExportError', this.hooks.onExportError, {
+        exporter: name,
+        error: err instanceof Error ? err : new Error(String(err)),
+        spans,
+      });
+      return false;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Pipeline
+// ─────────────────────────────────────────────────────────────
+
+export class ExportPipeline {
+  private readonly sinks: SpanSink[];
+  private readonly tailSampler: TailSampler | null;
+  private readonly hooks: LelemonHooks;
+  private shutdownPromise: Promise<void> | null = null;
+
+  constructor(sinks: SpanSink[], options: ExportPipelineOptions = {}) {
+    this.sinks = sinks;
+    this.hooks = options.hooks ?? {};
+    this.tailSampler = options.tailSampling
+      ? new TailSampler(options.tailSampling, (spans) => spans.forEach((span) => this.forward(span)))
+      : null;
+  }
+
+  /**
+   * Enabled when at least one sink accepts spans
+   */
+  isEnabled(): boolean {
+    return !this.shutdownPromise && this.sinks.some((sink) => sink.isEnabled());
+  }
+
+  /**
+   * Send a span to every enabled sink
+   * Fire-and-forget - never blocks
+   */
+  enqueue(trace: CreateTraceRequest): void {
+    // Spans captured after shutdown() are ignored
+    if (this.shutdownPromise) return;
+
+    captureTimes.set(trace, Date.now());
+    // spanId doubles as the event ID the ingest API deduplicates on
+    trace.spanId ??= generateId();
+    callHook('onSpanCaptured', this.hooks.onSpanCaptured, trace);
+
+    if (this.tailSampler) {
+      this.tailSampler.add(trace);
+    } else {
+      this.forward(trace);
+    }
+  }
+
+  /**
+   * Flush every sink
+   * Traces still waiting on tail sampling stay buffered until they complete
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.flush()));
+  }
+
+  /**
+   * Flush and shut down every sink
+   * Unfinished traces held for tail sampling are decided first.
+   * Safe to call multiple times - later calls wait for the first one
+   */
+  shutdown(): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.tailSampler?.drain();
+      this.shutdownPromise = Promise.all(this.sinks.map((sink) => sink.shutdown())).then(() => undefined);
+    }
+    return this.shutdownPromise;
+  }
+
+  private forward(trace: CreateTraceRequest): void {
+    for (const sink of this.sinks) {
+      if (!sink.isEnabled()) continue;
+      try {
+        sink.enqueue(trace);
+      } catch (err) {
+        exporterError('sink', err);
+      }
+    }
+  }
+}
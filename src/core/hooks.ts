@@ -0,0 +1,30 @@
+/**
+ * Lifecycle Hooks
+ *
+ * Runs the user callbacks from `init({ onSpanCaptured, onBatchSent, onExportError })`.
+ * A hook that throws or rejects is logged, never propagated.
+ */
+
+import { warn } from './logger';
+
+/**
+ * Call a hook if set, isolating the caller from its errors
+ */
+export function callHook<T>(
+  name: string,
+  hook: ((payload: T) => void | Promise<void>) | undefined,
+  payload: T
+): void {
+  if (!hook) return;
+
+  const report = (err: unknown) => warn(`${name} hook threw`, err instanceof Error ? err.message : err);
+
+  try {
+    const result = hook(payload);
+    if (result && typeof result.then === 'function') {
+      result.then(undefined, report);
+    }
+  } catch (err) {
+    report(err);
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * ID Generation
+ *
+ * Trace, span and batch IDs. Kept free of other SDK imports so the transport
+ * can use it without pulling in the trace context.
+ */
+
+/**
+ * Generate a unique trace/span ID
+ * Uses crypto.randomUUID if available, falls back to timestamp-based ID
+ */
+export function generateId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  // Fallback for older Node.js versions
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Process Lifecycle Hooks
+ *
+ * Opt-in wiring of shutdown() to Node.js process events:
+ * - beforeExit: scripts send spans queued after their last flush
+ * - SIGTERM / SIGINT: services drain the queue before exiting
+ *
+ * Existing handlers keep working. When no other handler is registered for a
+ * signal, the signal is re-raised after shutdown so the process still exits.
+ */
+
+import type { ShutdownHooksOptions } from './types';
+import { shutdown } from './config';
+import { debug } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+const DEFAULT_SIGNALS = ['SIGTERM', 'SIGINT'];
+
+let unregisterHooks: (() => void) | null = null;
+
+// ─────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Call shutdown() on beforeExit, SIGTERM and SIGINT
+ * Returns a function that removes the hooks. Calling it twice keeps the first registration.
+ *
+ * @example
+ * init({ apiKey: process.env.LELEMON_API_KEY });
+ * registerShutdownHooks({ timeoutMs: 3000 });
+ */
+export function registerShutdownHooks(options: ShutdownHooksOptions = {}): () => void {
+  if (unregisterHooks) {
+    debug('Shutdown hooks already registered');
+    return unregisterHooks;
+  }
+
+  if (typeof process === 'undefined' || typeof process.on !== 'function') {
+    debug('Shutdown hooks need Node.js process events, skipping');
+    return () => {};
+  }
+
+  const signals = options.signals ?? DEFAULT_SIGNALS;
+  let shuttingDown: Promise<void> | null = null;
+  const run = () => (shuttingDown ??= shutdown({ timeoutMs: options.timeoutMs }));
+
+  // beforeExit fires again once shutdown's work is done; the second call is a no-op
+  const onBeforeExit = () => {
+    run();
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    debug(`Received ${signal}, shutting down`);
+    run().finally(() => {
+      unregister();
+      // Nobody else handles this signal: restore Node's default behavior (exit)
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+
+  const unregister = () => {
+    process.off('beforeExit', onBeforeExit);
+    for (const signal of signals) {
+      process.off(signal, onSignal);
+    }
+    unregisterHooks = null;
+  };
+
+  process.on('beforeExit', onBeforeExit);
+  for (const signal of signals) {
+    process.on(signal, onSignal);
+  }
+
+  unregisterHooks = unregister;
+  return unregister;
+}
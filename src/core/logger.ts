@@ -132,12 +132,46 @@ export function batchError(count: number, err: unknown): void {
   console.error(`${PREFIX} Batch send failed: count=${count} error=${message}`);
 }
 
+/**
+ * Log when the ingest API throttles us (always visible - spans are delayed)
+ */
+export function throttled(pauseMs: number, reason: string, queued: number): void {
+  console.warn(`${PREFIX} Ingest throttled: pausing ${pauseMs}ms reason=${reason} queued=${queued}`);
+}
+
+/**
+ * Log when the queue is full (or the ingest circuit is open) and spans are dropped (always visible - data loss)
+ */
+export function spansDropped(count: number, policy: string, total: number, reason = 'Queue full'): void {
+  console.warn(`${PREFIX} ${reason}: dropped ${count} span(s) policy=${policy} totalDropped=${total}`);
+}
+
+/**
+ * Log exporter failure (always visible - errors should never be silent)
+ */
+export function exporterError(name: string, err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`${PREFIX} Exporter failed: exporter=${name} error=${message}`);
+}
+
 /**
  * Log request details (for deep debugging)
  */
-export function requestDetails(method: string, url: string, bodySize: number): void {
+export function requestDetails(
+  method: string,
+  url: string,
+  bodySize: number,
+  compressed?: { encoding: string; bytes: number }
+): void {
   if (!isDebugEnabled()) return;
-  console.log(`${PREFIX} Request: ${method} ${url} (${bodySize} bytes)`);
+  if (compressed) {
+    const savedPercent = bodySize > 0 ? Math.round((1 - compressed.bytes / bodySize) * 100) : 0;
+    console.log(
+      `${PREFIX} Request: ${method} ${url} (${bodySize} bytes, ${compressed.encoding} ${compressed.bytes} bytes, -${savedPercent}%)`
+    );
+  } else {
+    console.log(`${PREFIX} Request: ${method} ${url} (${bodySize} bytes)`);
+  }
 }
 
 /**
@@ -0,0 +1,136 @@
+/**
+ * Span Queue
+ *
+ * Bounded in-memory queue used by the transport.
+ * Enforces a span count and byte limit with a selectable overflow policy:
+ * - drop-newest: reject incoming spans while full
+ * - drop-oldest: evict the oldest queued spans
+ * - drop-non-error: evict the oldest successful spans first, keep errors
+ */
+
+import type { CreateTraceRequest, QueueOverflowPolicy } from './types';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+export interface SpanQueueConfig {
+  maxSize: number;
+  maxBytes: number;
+  policy: QueueOverflowPolicy;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Size Estimation
+// ─────────────────────────────────────────────────────────────
+
+const sizeCache = new WeakMap<CreateTraceRequest, number>();
+
+/**
+ * Serialized size of a span in bytes (cached per object)
+ */
+export function getSerializedSize(trace: CreateTraceRequest): number {
+  let size = sizeCache.get(trace);
+  if (size === undefined) {
+    size = new TextEncoder().encode(JSON.stringify(trace)).length;
+    sizeCache.set(trace, size);
+  }
+  return size;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Queue Class
+// ─────────────────────────────────────────────────────────────
+
+export class SpanQueue {
+  private readonly config: SpanQueueConfig;
+  private items: CreateTraceRequest[] = [];
+  private totalBytes = 0;
+
+  constructor(config: SpanQueueConfig) {
+    this.config = config;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Add a span to the back of the queue
+   * @returns Spans dropped to stay within limits (may include the new span)
+   */
+  push(trace: CreateTraceRequest): CreateTraceRequest[] {
+    this.items.push(trace);
+    this.totalBytes += getSerializedSize(trace);
+    return this.enforceLimits();
+  }
+
+  /**
+   * Put spans back at the front of the queue (e.g. a throttled batch)
+   * @returns Spans dropped to stay within limits
+   */
+  unshift(traces: CreateTraceRequest[]): CreateTraceRequest[] {
+    this.items.unshift(...traces);
+    for (const trace of traces) {
+      this.totalBytes += getSerializedSize(trace);
+    }
+    return this.enforceLimits();
+  }
+
+  /**
+   * Remove and return queued spans from the front (all of them by default)
+   */
+  drain(count = this.items.length): CreateTraceRequest[] {
+    if (count >= this.items.length) {
+      const items = this.items;
+      this.items = [];
+      this.totalBytes = 0;
+      return items;
+    }
+
+    const items = this.items.splice(0, count);
+    for (const item of items) {
+      this.totalBytes -= getSerializedSize(item);
+    }
+    return items;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private isOverLimit(): boolean {
+    return this.items.length > this.config.maxSize || this.totalBytes > this.config.maxBytes;
+  }
+
+  private enforceLimits(): CreateTraceRequest[] {
+    const dropped: CreateTraceRequest[] = [];
+
+    while (this.isOverLimit() && this.items.length > 0) {
+      const index = this.pickVictim();
+      const [victim] = this.items.splice(index, 1);
+      this.totalBytes -= getSerializedSize(victim);
+      dropped.push(victim);
+    }
+
+    return dropped;
+  }
+
+  private pickVictim(): number {
+    switch (this.config.policy) {
+      case 'drop-oldest':
+        return 0;
+      case 'drop-non-error': {
+        const index = this.items.findIndex((item) => item.status !== 'error');
+        return index === -1 ? 0 : index;
+      }
+      case 'drop-newest':
+      default:
+        return this.items.length - 1;
+    }
+  }
+}
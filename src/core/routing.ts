@@ -0,0 +1,40 @@
+/**
+ * Multi-Project Routing
+ *
+ * Remembers which project (API key) each span belongs to, from
+ * `trace({ projectKey })` or `observe(client, { projectKey })`.
+ * The key travels next to the span, never inside it, so it doesn't reach
+ * the ingest payload or custom exporters.
+ */
+
+import type { CreateTraceRequest } from './types';
+
+// Use a global symbol so every entry point shares one map: a span captured
+// through @lelemondev/sdk/openai is sent by the transport bundled in @lelemondev/sdk
+const PROJECT_KEYS_KEY = Symbol.for('@lelemondev/sdk:projectKeys');
+
+function getProjectKeys(): WeakMap<CreateTraceRequest, string> {
+  const globalObj = globalThis as Record<symbol, WeakMap<CreateTraceRequest, string> | undefined>;
+  if (!globalObj[PROJECT_KEYS_KEY]) {
+    globalObj[PROJECT_KEYS_KEY] = new WeakMap<CreateTraceRequest, string>();
+  }
+  return globalObj[PROJECT_KEYS_KEY];
+}
+
+const projectKeys = getProjectKeys();
+
+/**
+ * Attach the project API key a span should be sent with
+ */
+export function setProjectKey(span: CreateTraceRequest, projectKey: string | undefined): void {
+  if (projectKey) {
+    projectKeys.set(span, projectKey);
+  }
+}
+
+/**
+ * Project API key attached to a span, if any
+ */
+export function getProjectKey(span: CreateTraceRequest): string | undefined {
+  return projectKeys.get(span);
+}
@@ -0,0 +1,35 @@
+/**
+ * Head Sampling
+ *
+ * Decides up front whether a trace is recorded, before any span is built.
+ * - trace() decides once; every span inside inherits the decision
+ * - Spans outside trace() are decided one by one
+ * - Unsampled work skips sanitization and never reaches the exporters
+ */
+
+import type { SamplingContext } from './types';
+import { getConfig } from './config';
+import { debug, warn } from './logger';
+
+/**
+ * Whether work described by `context` should be recorded
+ * Fails open - a broken sampling function keeps the trace
+ */
+export function shouldSample(context: SamplingContext): boolean {
+  const sampling = getConfig().sampling;
+  if (sampling === undefined) return true;
+
+  let decision: boolean | number;
+  try {
+    decision = typeof sampling === 'function' ? sampling(context) : sampling;
+  } catch (err) {
+    warn('Sampling function threw, keeping the trace', err instanceof Error ? err.message : err);
+    return true;
+  }
+
+  const sampled = typeof decision === 'boolean' ? decision : Math.random() < decision;
+  if (!sampled) {
+    debug(`Sampled out: ${context.provider}/${context.model}`);
+  }
+  return sampled;
+}
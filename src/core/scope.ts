@@ -0,0 +1,114 @@
+/**
+ * Client Scope
+ *
+ * observe() options that belong to one wrapped client: the project it is
+ * routed to and what content it may capture. The wrapped client runs every
+ * call inside its scope, so a later observe() on another client can't change
+ * where its spans go or re-enable content it turned off.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ObserveOptions } from './types';
+import { mergeCaptureContent } from './content';
+
+// ─────────────────────────────────────────────────────────────
+// Scope Storage
+// ─────────────────────────────────────────────────────────────
+
+export type ClientScope = Pick<ObserveOptions, 'projectKey' | 'captureContent'>;
+
+// Use a global symbol so a client wrapped through @lelemondev/sdk/openai is
+// read by the capture code of every other entry point
+const SCOPE_STORAGE_KEY = Symbol.for('@lelemondev/sdk:clientScope');
+
+function getScopeStorage(): AsyncLocalStorage<ClientScope> {
+  const globalObj = globalThis as Record<symbol, AsyncLocalStorage<ClientScope> | undefined>;
+  if (!globalObj[SCOPE_STORAGE_KEY]) {
+    globalObj[SCOPE_STORAGE_KEY] = new AsyncLocalStorage<ClientScope>();
+  }
+  return globalObj[SCOPE_STORAGE_KEY];
+}
+
+const scopeStorage = getScopeStorage();
+
+/**
+ * Scope of the wrapped client making the current call, if any
+ */
+export function getClientScope(): ClientScope | undefined {
+  return scopeStorage.getStore();
+}
+
+/**
+ * Split observe() options into the shared context and the wrapped client's own scope
+ */
+export function splitObserveOptions(options: ObserveOptions = {}): { context: ObserveOptions; scope: ClientScope } {
+  const { projectKey, captureContent, ...context } = options;
+  return { context, scope: { projectKey, captureContent } };
+}
+
+/**
+ * Run every call of a wrapped client inside its scope
+ * Nested scopes keep the outer projectKey unless they set one, and the most restrictive content setting
+ */
+export function bindToScope<T>(target: T, scope: ClientScope): T {
+  if (scope.projectKey === undefined && scope.captureContent === undefined) {
+    return target;
+  }
+
+  return bindCalls(target, (fn) => {
+    const parent = scopeStorage.getStore();
+    const merged: ClientScope = {
+      projectKey: scope.projectKey ?? parent?.projectKey,
+      captureContent: mergeCaptureContent(parent?.captureContent, scope.captureContent),
+    };
+    return scopeStorage.run(merged, fn);
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Call Binding
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Proxy an object so every method call goes through `run`
+ * Returned objects and streams stay bound, so spans captured later (e.g. when
+ * a stream finishes) still see the same async context
+ */
+export function bindCalls<T>(target: T, run: <R>(fn: () => R) => R): T {
+  if (target === null || (typeof target !== 'object' && typeof target !== 'function')) {
+    return target;
+  }
+
+  return new Proxy(target as object, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+
+      if (prop === 'constructor') return value;
+
+      if (typeof value === 'function') {
+        return (...args: unknown[]) => run(() => bindResult(value.apply(obj, args), run));
+      }
+
+      if (value !== null && typeof value === 'object') {
+        return bindCalls(value, run);
+      }
+
+      return value;
+    },
+  }) as T;
+}
+
+/**
+ * Keep a call's result bound
+ * Resolved responses are returned as-is unless they're streams
+ */
+function bindResult(result: unknown, run: <R>(fn: () => R) => R): unknown {
+  if (result instanceof Promise) {
+    return result.then((value) => (isAsyncIterable(value) ? bindCalls(value, run) : value));
+  }
+  return bindCalls(result, run);
+}
+
+function isAsyncIterable(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && Symbol.asyncIterator in value;
+}
@@ -0,0 +1,73 @@
+/**
+ * Self-Report
+ *
+ * Periodically emits a `lelemon.stats` span carrying the transport stats, so
+ * dashboards can alert when tracing silently breaks:
+ * - output: the full getStats() snapshot
+ * - status 'error' when batches failed since the previous report
+ *
+ * The timer never keeps the process alive.
+ */
+
+import type { CreateTraceRequest } from './types';
+import type { TransportStats } from './transport';
+
+// ─────────────────────────────────────────────────────────────
+// Self Reporter Class
+// ─────────────────────────────────────────────────────────────
+
+export const SELF_REPORT_SPAN_NAME = 'lelemon.stats';
+
+export class SelfReporter {
+  private readonly intervalMs: number;
+  private readonly getStats: () => TransportStats;
+  private readonly emit: (span: CreateTraceRequest) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private reportedFailures = 0;
+
+  constructor(
+    intervalMs: number,
+    getStats: () => TransportStats,
+    emit: (span: CreateTraceRequest) => void
+  ) {
+    this.intervalMs = intervalMs;
+    this.getStats = getStats;
+    this.emit = emit;
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+
+    this.timer = setInterval(() => this.report(), this.intervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Emit one stats span now
+   */
+  report(): void {
+    const stats = this.getStats();
+    const newFailures = stats.failedBatches - this.reportedFailures;
+    this.reportedFailures = stats.failedBatches;
+
+    this.emit({
+      spanType: 'custom',
+      name: SELF_REPORT_SPAN_NAME,
+      provider: 'unknown',
+      model: SELF_REPORT_SPAN_NAME,
+      input: null,
+      output: stats,
+      durationMs: 0,
+      status: newFailures > 0 ? 'error' : 'success',
+      errorMessage: newFailures > 0 ? `${newFailures} batch(es) failed: ${stats.lastError}` : undefined,
+      streaming: false,
+    });
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Persistent Spool
+ *
+ * Optional disk-backed write-ahead log for queued spans (Node.js only).
+ * Features:
+ * - Every enqueued span is appended to a JSONL segment, with its project key if routed
+ * - Directory and segments are only readable by the owner, since they may hold API keys
+ * - Segments rotate by size and are deleted once all their spans are delivered
+ * - Segments left behind by a crashed or offline process are drained on startup
+ * - Total size cap (oldest segments are dropped first, their pending spans reported)
+ * - Corruption-tolerant reads (bad or truncated lines are skipped)
+ */
+
+import type { CreateTraceRequest, SpoolConfig } from './types';
+import { getProjectKey, setProjectKey } from './routing';
+import { debug, warn } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_MAX_SEGMENT_BYTES = 5 * 1024 * 1024;
+
+/** Segment file name: <createdAt>-<pid>-<instance>-<seq>.jsonl */
+/** Owner-only permissions: routed spans are stored with their project API key */
+const DIRECTORY_MODE = 0o700;
+const SEGMENT_MODE = 0o600;
+
+const SEGMENT_PATTERN = /^(\d+)-(\d+)-([a-z0-9]+)-(\d+)\.jsonl$/;
+
+type NodeFs = typeof import('node:fs/promises');
+type NodePath = typeof import('node:path');
+
+interface NodeModules {
+  fs: NodeFs;
+  path: NodePath;
+}
+
+interface Segment {
+  name: string;
+  bytes: number;
+  /** Spans written to this segment that are not delivered yet */
+  pending: Set<CreateTraceRequest>;
+}
+
+/** Line format for spans routed to a project other than the default one */
+interface SpoolRecord {
+  projectKey: string;
+  span: CreateTraceRequest;
+}
+
+// Spool instances alive in this process (their segments must not be drained)
+const liveInstances = new Set<string>();
+
+// ─────────────────────────────────────────────────────────────
+// Spool Class
+// ─────────────────────────────────────────────────────────────
+
+export class FileSpool {
+  private readonly config: Required<SpoolConfig>;
+  private readonly instanceId = Math.random().toString(36).slice(2, 10);
+  private readonly modules: Promise<NodeModules | null>;
+  private readonly segments = new Map<string, Segment>();
+  private readonly itemSegments = new WeakMap<CreateTraceRequest, Segment>();
+  private readonly onEvict: (items: CreateTraceRequest[]) => void;
+  private ops: Promise<void> = Promise.resolve();
+  private active: Segment | null = null;
+  private seq = 0;
+  private totalBytes = 0;
+  private droppedSegments = 0;
+
+  /**
+   * @param onEvict - Called with the undelivered spans of segments dropped by the size cap
+   */
+  constructor(config: SpoolConfig, onEvict: (items: CreateTraceRequest[]) => void = () => {}) {
+    this.config = {
+      directory: config.directory,
+      maxBytes: config.maxBytes ?? DEFAULT_MAX_BYTES,
+      maxSegmentBytes: config.maxSegmentBytes ?? DEFAULT_MAX_SEGMENT_BYTES,
+    };
+    this.onEvict = onEvict;
+    this.modules = loadNodeModules();
+    liveInstances.add(this.instanceId);
+
+    this.run(({ fs }) => fs.mkdir(this.config.directory, { recursive: true, mode: DIRECTORY_MODE }).then(() => undefined));
+  }
+
+  /**
+   * Drain segments left behind by previous processes.
+   * Recovered spans are handed to `onRecovered` and deleted once acked.
+   */
+  recover(onRecovered: (items: CreateTraceRequest[]) => void): void {
+    this.run(async ({ fs, path }) => {
+      const names = (await fs.readdir(this.config.directory))
+        .filter((name) => this.isOrphanedSegment(name))
+        .sort();
+
+      for (const name of names) {
+        const file = path.join(this.config.directory, name);
+        const content = await fs.readFile(file, 'utf8').catch(() => null);
+        if (content === null) continue;
+
+        const { items, corrupt } = parseSegment(content);
+        if (corrupt > 0) {
+          warn(`Spool: skipped ${corrupt} corrupt line(s) in ${name}`);
+        }
+
+        if (items.length === 0) {
+          await fs.rm(file, { force: true });
+          continue;
+        }
+
+        const segment: Segment = { name, bytes: byteLength(content), pending: new Set(items) };
+        this.segments.set(name, segment);
+        this.totalBytes += segment.bytes;
+        for (const item of items) {
+          this.itemSegments.set(item, segment);
+        }
+
+        debug(`Spool: recovered ${items.length} span(s) from ${name}`);
+        onRecovered(items);
+      }
+    });
+  }
+
+  /**
+   * Append a span to the active segment
+   * Fire-and-forget - disk errors are logged, never thrown
+   */
+  append(trace: CreateTraceRequest): void {
+    const projectKey = getProjectKey(trace);
+    const record: SpoolRecord | CreateTraceRequest = projectKey ? { projectKey, span: trace } : trace;
+    const line = JSON.stringify(record) + '\n';
+    const bytes = byteLength(line);
+
+    if (!this.makeRoom(bytes)) {
+      warn('Spool: size cap reached, span kept in memory only');
+      return;
+    }
+
+    if (!this.active || (this.active.bytes > 0 && this.active.bytes + bytes > this.config.maxSegmentBytes)) {
+      this.rotate();
+    }
+
+    const segment = this.active!;
+    segment.bytes += bytes;
+    segment.pending.add(trace);
+    this.totalBytes += bytes;
+    this.itemSegments.set(trace, segment);
+
+    this.run(({ fs, path }) => fs.appendFile(path.join(this.config.directory, segment.name), line, { mode: SEGMENT_MODE }));
+  }
+
+  /**
+   * Mark spans as settled (delivered or permanently rejected)
+   * Segments with no pending spans are deleted
+   */
+  ack(items: CreateTraceRequest[]): void {
+    for (const item of items) {
+      const segment = this.itemSegments.get(item);
+      if (!segment) continue;
+
+      this.itemSegments.delete(item);
+      segment.pending.delete(item);
+      if (segment.pending.size === 0) {
+        this.removeSegment(segment);
+      }
+    }
+  }
+
+  /**
+   * Whether a span is on disk (appended or recovered, not acked or evicted)
+   */
+  has(item: CreateTraceRequest): boolean {
+    return this.itemSegments.has(item);
+  }
+
+  /**
+   * Wait for pending disk operations (writes, deletes, recovery)
+   */
+  idle(): Promise<void> {
+    return this.ops;
+  }
+
+  /**
+   * Stop tracking this instance; its remaining segments become drainable
+   */
+  async close(): Promise<void> {
+    await this.ops;
+    liveInstances.delete(this.instanceId);
+  }
+
+  /**
+   * Number of segments dropped because of the size cap
+   */
+  getDroppedSegments(): number {
+    return this.droppedSegments;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private rotate(): void {
+    const name = `${Date.now()}-${getPid()}-${this.instanceId}-${String(this.seq++).padStart(6, '0')}.jsonl`;
+    this.active = { name, bytes: 0, pending: new Set() };
+    this.segments.set(name, this.active);
+  }
+
+  /**
+   * Evict the oldest inactive segments until `bytes` fits under maxBytes
+   */
+  private makeRoom(bytes: number): boolean {
+    if (this.totalBytes + bytes <= this.config.maxBytes) return true;
+
+    for (const segment of [...this.segments.values()].sort((a, b) => a.name.localeCompare(b.name))) {
+      if (segment === this.active) continue;
+
+      warn(`Spool: size cap reached, dropping segment ${segment.name} (${segment.pending.size} span(s))`);
+      this.droppedSegments++;
+      const evicted = [...segment.pending];
+      this.removeSegment(segment);
+      this.onEvict(evicted);
+
+      if (this.totalBytes + bytes <= this.config.maxBytes) return true;
+    }
+
+    return false;
+  }
+
+  private removeSegment(segment: Segment): void {
+    if (!this.segments.has(segment.name)) return;
+
+    this.segments.delete(segment.name);
+    this.totalBytes -= segment.bytes;
+    for (const item of segment.pending) {
+      this.itemSegments.delete(item);
+    }
+    segment.pending.clear();
+    if (this.active === segment) {
+      this.active = null;
+    }
+
+    this.run(({ fs, path }) => fs.rm(path.join(this.config.directory, segment.name), { force: true }));
+  }
+
+  private isOrphanedSegment(name: string): boolean {
+    const match = SEGMENT_PATTERN.exec(name);
+    if (!match) return false;
+
+    const pid = Number(match[2]);
+    const instanceId = match[3];
+
+    if (pid === getPid()) {
+      return !liveInstances.has(instanceId);
+    }
+    return !isProcessAlive(pid);
+  }
+
+  /**
+   * Serialize disk operations so appends, deletes and recovery never interleave
+   */
+  private run(op: (modules: NodeModules) => Promise<void>): void {
+    this.ops = this.ops
+      .then(async () => {
+        const modules = await this.modules;
+        if (modules) await op(modules);
+      })
+      .catch((err) => {
+        warn('Spool: disk operation failed', err instanceof Error ? err.message : err);
+      });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+async function loadNodeModules(): Promise<NodeModules | null> {
+  try {
+    const [fs, path] = await Promise.all([import('node:fs/promises'), import('node:path')]);
+    return { fs, path };
+  } catch {
+    warn('Spool requires a Node.js file system. Spool disabled.');
+    return null;
+  }
+}
+
+/**
+ * Parse a JSONL segment, skipping corrupt or truncated lines
+ * Routed spans get their project key back so they go to the same project as before
+ */
+function parseSegment(content: string): { items: CreateTraceRequest[]; corrupt: number } {
+  const items: CreateTraceRequest[] = [];
+  let corrupt = 0;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      if (isRoutedRecord(parsed)) {
+        setProjectKey(parsed.span, parsed.projectKey);
+        items.push(parsed.span);
+      } else if (isTraceRecord(parsed)) {
+        items.push(parsed);
+      } else {
+        corrupt++;
+      }
+    } catch {
+      corrupt++;
+    }
+  }
+
+  return { items, corrupt };
+}
+
+function isTraceRecord(value: unknown): value is CreateTraceRequest {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.provider === 'string' && typeof record.model === 'string';
+}
+
+function isRoutedRecord(value: unknown): value is SpoolRecord {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.projectKey === 'string' && isTraceRecord(record.span);
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function getPid(): number {
+  return typeof process !== 'undefined' && typeof process.pid === 'number' ? process.pid : 0;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Tail Sampling
+ *
+ * Holds every span of a trace until the root span from trace() completes,
+ * then forwards or discards the whole trace based on rules:
+ * - any errored span
+ * - total duration / token thresholds
+ * - tags or a custom rule
+ *
+ * Unfinished traces are bounded by span count and age; when a limit is hit
+ * they are decided with the spans seen so far.
+ */
+
+import type { CreateTraceRequest, TailSamplingConfig } from './types';
+import { TraceBuffer } from './trace-buffer';
+import { extractUsage } from './usage';
+import { debug, warn } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_BUFFERED_SPANS = 10_000;
+const DEFAULT_MAX_TRACE_AGE_MS = 5 * 60 * 1000;
+
+// ─────────────────────────────────────────────────────────────
+// Tail Sampler Class
+// ─────────────────────────────────────────────────────────────
+
+export class TailSampler {
+  private readonly config: TailSamplingConfig;
+  private readonly forward: (spans: CreateTraceRequest[]) => void;
+  private readonly buffer: TraceBuffer;
+
+  constructor(config: TailSamplingConfig, forward: (spans: CreateTraceRequest[]) => void) {
+    this.config = config;
+    this.forward = forward;
+    this.buffer = new TraceBuffer({
+      maxBufferedSpans: config.maxBufferedSpans ?? DEFAULT_MAX_BUFFERED_SPANS,
+      maxTraceAgeMs: config.maxTraceAgeMs ?? DEFAULT_MAX_TRACE_AGE_MS,
+      onRelease: (spans) => this.decide(spans),
+    });
+  }
+
+  /**
+   * Buffer a span; its trace is decided once the root span arrives
+   * Spans outside trace() are decided on their own right away
+   */
+  add(span: CreateTraceRequest): void {
+    this.buffer.add(span);
+  }
+
+  /**
+   * Decide every buffered trace now (on shutdown)
+   */
+  drain(): void {
+    this.buffer.drain();
+  }
+
+  /**
+   * Number of spans waiting for their trace to complete
+   */
+  getBufferedCount(): number {
+    return this.buffer.getBufferedCount();
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private decide(spans: CreateTraceRequest[]): void {
+    if (this.shouldKeep(spans)) {
+      this.forward(spans);
+    } else {
+      debug(`Tail sampling: discarded trace ${spans[0].traceId ?? spans[0].model} (${spans.length} span(s))`);
+    }
+  }
+
+  private shouldKeep(spans: CreateTraceRequest[]): boolean {
+    const { keepErrors = true, minDurationMs, minTotalTokens, tags, rule, fallbackRatio = 0 } = this.config;
+
+    if (keepErrors && spans.some((span) => span.status === 'error')) return true;
+
+    if (minDurationMs !== undefined && Math.max(...spans.map((span) => span.durationMs)) >= minDurationMs) {
+      return true;
+    }
+
+    if (minTotalTokens !== undefined) {
+      const totalTokens = spans.reduce((sum, span) => {
+        const usage = extractUsage(span);
+        return sum + (usage ? usage.inputTokens + usage.outputTokens : 0);
+      }, 0);
+      if (totalTokens >= minTotalTokens) return true;
+    }
+
+    if (tags?.length && spans.some((span) => span.tags?.some((tag) => tags.includes(tag)))) {
+      return true;
+    }
+
+    if (rule) {
+      try {
+        if (rule(spans)) return true;
+      } catch (err) {
+        warn('Tail sampling rule threw, keeping the trace', err instanceof Error ? err.message : err);
+        return true;
+      }
+    }
+
+    return Math.random() < fallbackRatio;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Trace Buffer
+ *
+ * Groups spans by traceId until the root span from trace() completes, then
+ * releases the whole trace at once. Used by tail sampling and batch-by-trace
+ * delivery.
+ * - Spans outside trace() are released on their own right away
+ * - Bounded by span count and age; unfinished traces are released
+ *   incomplete when a limit is hit
+ */
+
+import type { CreateTraceRequest } from './types';
+import { debug } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+export interface TraceBufferConfig {
+  /** Max spans held across unfinished traces; the oldest trace is released when full */
+  maxBufferedSpans: number;
+  /** Unfinished traces older than this are released, in ms */
+  maxTraceAgeMs: number;
+  /** Receives each released trace; `complete` is false when released before its root span */
+  onRelease: (spans: CreateTraceRequest[], complete: boolean) => void;
+}
+
+interface BufferedTrace {
+  spans: CreateTraceRequest[];
+  startedAt: number;
+}
+
+/**
+ * Whether a span is the root of its trace: the agent span of the outermost trace(), sent last
+ * (nested trace() calls have a parent)
+ */
+export function isRootSpan(span: CreateTraceRequest): boolean {
+  return span.spanType === 'agent' && !span.parentSpanId;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Trace Buffer Class
+// ─────────────────────────────────────────────────────────────
+
+export class TraceBuffer {
+  private readonly config: TraceBufferConfig;
+  private readonly traces = new Map<string, BufferedTrace>();
+  private bufferedSpans = 0;
+  private sweepTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: TraceBufferConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Hold a span until its trace completes
+   */
+  add(span: CreateTraceRequest): void {
+    if (!span.traceId) {
+      this.config.onRelease([span], true);
+      return;
+    }
+
+    let entry = this.traces.get(span.traceId);
+    if (!entry) {
+      entry = { spans: [], startedAt: Date.now() };
+      this.traces.set(span.traceId, entry);
+    }
+    entry.spans.push(span);
+    this.bufferedSpans++;
+
+    if (isRootSpan(span)) {
+      this.release(span.traceId, true);
+    }
+
+    this.enforceLimits();
+    this.scheduleSweep();
+  }
+
+  /**
+   * Release every held trace now (on shutdown)
+   */
+  drain(): void {
+    this.cancelSweep();
+    for (const traceId of [...this.traces.keys()]) {
+      this.release(traceId, false);
+    }
+  }
+
+  /**
+   * Number of spans waiting for their trace to complete
+   */
+  getBufferedCount(): number {
+    return this.bufferedSpans;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private release(traceId: string, complete: boolean): void {
+    const entry = this.traces.get(traceId);
+    if (!entry) return;
+
+    this.traces.delete(traceId);
+    this.bufferedSpans -= entry.spans.length;
+    this.config.onRelease(entry.spans, complete);
+  }
+
+  /**
+   * Release the oldest traces early when the buffer is full or they are too old
+   */
+  private enforceLimits(): void {
+    while (this.bufferedSpans > this.config.maxBufferedSpans) {
+      const oldest = this.traces.keys().next().value as string;
+      debug('Trace buffer full, releasing oldest trace early', { traceId: oldest });
+      this.release(oldest, false);
+    }
+
+    const now = Date.now();
+    for (const [traceId, entry] of this.traces) {
+      // Insertion order is start order: the rest are younger
+      if (now - entry.startedAt < this.config.maxTraceAgeMs) break;
+      debug('Trace never finished, releasing spans so far', { traceId });
+      this.release(traceId, false);
+    }
+  }
+
+  private scheduleSweep(): void {
+    if (this.sweepTimer !== null || this.traces.size === 0) return;
+
+    const [oldest] = this.traces.values();
+    const delayMs = Math.max(0, oldest.startedAt + this.config.maxTraceAgeMs - Date.now());
+
+    this.sweepTimer = setTimeout(() => {
+      this.sweepTimer = null;
+      this.enforceLimits();
+      this.scheduleSweep();
+    }, delayMs);
+
+    // Waiting on unfinished traces must not keep the process alive
+    (this.sweepTimer as { unref?: () => void }).unref?.();
+  }
+
+  private cancelSweep(): void {
+    if (this.sweepTimer !== null) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
@@ -4,13 +4,46 @@
  * Handles batched HTTP requests to the Lelemon API.
  * Features:
  * - Queue-based batching
- * - Auto-flush on batch size or interval
+ * - Bounded queue with overflow policies
+ * - Auto-flush on batch size, batch bytes or interval
+ * - Oversized batches split, oversized spans trimmed
  * - Request timeout protection
+ * - Retries with exponential backoff and jitter
+ * - Client-side throttling on 429 / Retry-After
+ * - Circuit breaker while the ingest API keeps failing
+ * - Optional disk spool for undelivered spans
+ * - Gzip/deflate compression of large payloads
+ * - Custom fetch, extra headers and HTTP proxy support
+ * - Multi-project routing: batches per API key
+ * - Idempotency-Key per batch, stable across retries
+ * - Optional batch-by-trace delivery
+ * - Delivery stats (sent, dropped, retried, latency)
  * - Graceful error handling
  */
 
-import type { CreateTraceRequest } from './types';
-import { batchSend, batchSuccess, batchError, requestDetails, responseDetails, transportEvent } from './logger';
+import type {
+  CircuitBreakerConfig,
+  CircuitState,
+  CompressionEncoding,
+  CreateTraceRequest,
+  DeliveryMode,
+  FetchFunction,
+  HeadersConfig,
+  LelemonHooks,
+  QueueOverflowPolicy,
+  SpanExporter,
+  SpoolConfig,
+} from './types';
+import type { SpanSink } from './exporter';
+import { FileSpool } from './spool';
+import { SpanQueue } from './queue';
+import { splitBatches, packTraces, fitSpan } from './batch';
+import { TraceBuffer } from './trace-buffer';
+import { CircuitBreaker } from './circuit';
+import { callHook } from './hooks';
+import { getProjectKey } from './routing';
+import { generateId } from './id';
+import { batchSend, batchSuccess, batchError, requestDetails, responseDetails, transportEvent, throttled, spansDropped, warn } from './logger';
 
 // ─────────────────────────────────────────────────────────────
 // Configuration
@@ -22,23 +55,158 @@ interface TransportConfig {
   debug: boolean;
   disabled: boolean;
   batchSize?: number;
+  maxBatchBytes?: number;
+  deliveryMode?: DeliveryMode;
+  traceHoldMs?: number;
   flushIntervalMs?: number;
   requestTimeoutMs?: number;
+  maxRetries?: number;
+  retryInitialDelayMs?: number;
+  retryMaxDelayMs?: number;
+  maxQueueSize?: number;
+  maxQueueBytes?: number;
+  queueOverflowPolicy?: QueueOverflowPolicy;
+  compression?: CompressionEncoding | false;
+  compressionThresholdBytes?: number;
+  circuitBreaker?: CircuitBreakerConfig | false;
+  spool?: SpoolConfig;
+  hooks?: LelemonHooks;
+  fetch?: FetchFunction;
+  headers?: HeadersConfig;
+  proxy?: string;
+  routeSpan?: (span: CreateTraceRequest) => string | undefined;
 }
 
-const DEFAULT_BATCH_SIZE = 10;
-const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+export const DEFAULT_BATCH_SIZE = 10;
+export const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_MAX_BATCH_BYTES = 1024 * 1024;
+const DEFAULT_DELIVERY_MODE: DeliveryMode = 'span';
+const DEFAULT_TRACE_HOLD_MS = 30_000;
 const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_INITIAL_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5000;
+export const DEFAULT_MAX_QUEUE_SIZE = 10_000;
+export const DEFAULT_MAX_QUEUE_BYTES = 50 * 1024 * 1024;
+export const DEFAULT_QUEUE_OVERFLOW_POLICY: QueueOverflowPolicy = 'drop-newest';
+const DEFAULT_COMPRESSION: CompressionEncoding = 'gzip';
+const DEFAULT_COMPRESSION_THRESHOLD_BYTES = 8 * 1024;
+/** Upper bound for a server-requested pause, so a bad header can't stall tracing for hours */
+const MAX_THROTTLE_MS = 5 * 60 * 1000;
+
+// ─────────────────────────────────────────────────────────────
+// Stats
+// ─────────────────────────────────────────────────────────────
+
+export interface TransportStats {
+  /** Spans handed to the transport */
+  enqueuedSpans: number;
+  /** Spans accepted by the ingest API */
+  sentSpans: number;
+  /** Spans resent after a failed attempt (counted once per retry) */
+  retriedSpans: number;
+  /** Batches given up on after retries or rejected by the API */
+  failedBatches: number;
+  /** Message of the most recent failed batch */
+  lastError: string | null;
+  /** Epoch ms of the most recent failed batch (0 if none) */
+  lastErrorAt: number;
+  /** Epoch ms of the most recent successful send (0 if none) */
+  lastSuccessAt: number;
+  /** Mean duration of successful ingest requests in ms (0 if none) */
+  averageLatencyMs: number;
+  /** Whether sending is currently paused by the ingest API */
+  throttled: boolean;
+  /** Epoch ms when the current pause ends (0 when not throttled) */
+  throttledUntil: number;
+  /** Number of times the ingest API asked us to slow down */
+  throttleCount: number;
+  /** Spans waiting in the queue */
+  queueSize: number;
+  /** Spans held until their trace completes (deliveryMode 'trace') */
+  heldSpans: number;
+  /** Serialized size of queued spans in bytes */
+  queueBytes: number;
+  /** Spans dropped because the queue was full, the circuit was open, their batch failed or the spool cap evicted them */
+  droppedSpans: number;
+  /** Circuit breaker state ('closed' when disabled) */
+  circuitState: CircuitState;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Errors
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Error thrown for non-2xx ingest responses
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  /** Server-requested wait before the next request (from Retry-After or rate-limit headers) */
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, body: string, retryAfterMs?: number) {
+    super(`HTTP ${status}: ${body}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Whether a failed request is worth retrying.
+ * Network errors, timeouts, 408, 429 and 5xx are transient.
+ * Other 4xx (400, 401, 413, ...) will fail the same way again.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
 
 // ─────────────────────────────────────────────────────────────
 // Transport Class
 // ─────────────────────────────────────────────────────────────
 
-export class Transport {
-  private readonly config: Required<TransportConfig>;
-  private queue: CreateTraceRequest[] = [];
+export class Transport implements SpanExporter, SpanSink {
+  readonly name = 'lelemon';
+  private readonly config: Required<Omit<TransportConfig, 'spool' | 'circuitBreaker' | 'hooks' | 'fetch' | 'headers' | 'proxy' | 'routeSpan'>>;
+  private readonly hooks: LelemonHooks;
+  private readonly fetchImpl: FetchFunction | null;
+  private readonly headers: HeadersConfig;
+  private readonly proxyDispatcher: Promise<unknown> | null = null;
+  private readonly routeSpan: ((span: CreateTraceRequest) => string | undefined) | null;
+  /** API key each queued span is sent with */
+  private readonly apiKeys = new WeakMap<CreateTraceRequest, string>();
+  /** deliveryMode 'trace': spans waiting for their root span */
+  private readonly traceBuffer: TraceBuffer | null = null;
+  /** deliveryMode 'trace': per-trace marker sent alongside each span's batch */
+  private readonly traceMarkers = new WeakMap<CreateTraceRequest, TraceMarker>();
+  private readonly spool: FileSpool | null = null;
+  /** Spooled spans of failed batches, resent once the ingest API accepts a batch again */
+  private readonly deferred = new Set<CreateTraceRequest>();
+  private readonly breaker: CircuitBreaker | null = null;
+  private readonly queue: SpanQueue;
   private flushPromise: Promise<void> | null = null;
   private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private throttledUntil = 0;
+  private throttleCount = 0;
+  private droppedSpans = 0;
+  private enqueuedSpans = 0;
+  private sentSpans = 0;
+  private sentBatches = 0;
+  private totalLatencyMs = 0;
+  private retriedSpans = 0;
+  private failedBatches = 0;
+  private lastError: string | null = null;
+  private lastErrorAt = 0;
+  private lastSuccessAt = 0;
+  private overflowing = false;
+  private droppingWhileOpen = false;
+  private closed = false;
+  /** Set when the server rejects compressed bodies (415, or 400 where the uncompressed resend works) */
+  private compressionRejected = false;
 
   constructor(config: TransportConfig) {
     this.config = {
@@ -47,16 +215,74 @@ export class Transport {
       debug: config.debug,
       disabled: config.disabled,
       batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
+      maxBatchBytes: config.maxBatchBytes ?? DEFAULT_MAX_BATCH_BYTES,
+      deliveryMode: config.deliveryMode ?? DEFAULT_DELIVERY_MODE,
+      traceHoldMs: config.traceHoldMs ?? DEFAULT_TRACE_HOLD_MS,
       flushIntervalMs: config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS,
       requestTimeoutMs: config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+      maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryInitialDelayMs: config.retryInitialDelayMs ?? DEFAULT_RETRY_INITIAL_DELAY_MS,
+      retryMaxDelayMs: config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+      maxQueueSize: config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE,
+      maxQueueBytes: config.maxQueueBytes ?? DEFAULT_MAX_QUEUE_BYTES,
+      queueOverflowPolicy: config.queueOverflowPolicy ?? DEFAULT_QUEUE_OVERFLOW_POLICY,
+      compression: config.compression ?? DEFAULT_COMPRESSION,
+      compressionThresholdBytes: config.compressionThresholdBytes ?? DEFAULT_COMPRESSION_THRESHOLD_BYTES,
     };
+
+    this.hooks = config.hooks ?? {};
+    this.fetchImpl = config.fetch ?? null;
+    this.headers = config.headers ?? {};
+    this.routeSpan = config.routeSpan ?? null;
+
+    if (config.proxy && !config.disabled) {
+      this.proxyDispatcher = loadProxyDispatcher(config.proxy);
+    }
+
+    this.queue = new SpanQueue({
+      maxSize: this.config.maxQueueSize,
+      maxBytes: this.config.maxQueueBytes,
+      policy: this.config.queueOverflowPolicy,
+    });
+
+    if (this.config.deliveryMode === 'trace') {
+      this.traceBuffer = new TraceBuffer({
+        maxBufferedSpans: this.config.maxQueueSize,
+        maxTraceAgeMs: this.config.traceHoldMs,
+        onRelease: (spans, complete) => this.queueTrace(spans, complete),
+      });
+    }
+
+    if (config.circuitBreaker !== false) {
+      this.breaker = new CircuitBreaker(config.circuitBreaker);
+    }
+
+    if (config.spool && !config.disabled) {
+      this.spool = new FileSpool(config.spool, (evicted) => this.dropEvicted(evicted));
+      // Spans left on disk by a previous process go out with the next batch
+      this.spool.recover((recovered) => {
+        // Routed spans come back with their projectKey, so they keep their project
+        const items = recovered.filter((item) => this.assignApiKey(item));
+        this.recordDropped(this.queue.unshift(items));
+        transportEvent('Recovered spans from spool', { count: items.length });
+        this.scheduleFlush();
+      });
+    }
   }
 
   /**
    * Check if transport is enabled
    */
   isEnabled(): boolean {
-    return !this.config.disabled && !!this.config.apiKey;
+    return !this.config.disabled;
+  }
+
+  /**
+   * Point the transport at a new endpoint
+   * Queued spans go to the new endpoint; batches already in flight finish against the old one
+   */
+  setEndpoint(endpoint: string): void {
+    this.config.endpoint = endpoint;
   }
 
   /**
@@ -66,13 +292,34 @@ export class Transport {
   enqueue(trace: CreateTraceRequest): void {
     if (this.config.disabled) return;
 
-    this.queue.push(trace);
+    if (this.closed) {
+      transportEvent('Ignoring span enqueued after shutdown', { model: trace.model });
+      return;
+    }
 
-    if (this.queue.length >= this.config.batchSize) {
-      this.flush();
-    } else {
-      this.scheduleFlush();
+    this.enqueuedSpans++;
+    // Every span carries an event ID so a retried batch can't be counted twice
+    trace.spanId ??= generateId();
+
+    if (!this.assignApiKey(trace)) {
+      transportEvent('No API key for span, dropping', { model: trace.model });
+      this.droppedSpans++;
+      return;
+    }
+
+    if (this.breaker?.getState() === 'open' && this.breaker.queuePolicy === 'drop') {
+      this.dropWhileOpen([trace]);
+      return;
     }
+
+    if (this.traceBuffer) {
+      // Spooled while held, so a restart doesn't lose unfinished traces
+      this.spool?.append(trace);
+      this.traceBuffer.add(trace);
+      return;
+    }
+
+    this.pushToQueue([trace], false);
   }
 
   /**
@@ -80,31 +327,126 @@ export class Transport {
    * Safe to call multiple times
    */
   async flush(): Promise<void> {
+    // Let spool recovery land in the queue before deciding what to send
+    if (this.spool) {
+      await this.spool.idle();
+    }
+
     if (this.flushPromise) {
       return this.flushPromise;
     }
 
+    // Nothing new to send: give spans of earlier failed batches another attempt
+    if (this.queue.length === 0) {
+      this.requeueDeferred();
+    }
+
     if (this.queue.length === 0) {
       return;
     }
 
+    // Spans stay queued until the ingest API lets us send again
+    if (this.isThrottled()) {
+      this.scheduleFlush();
+      return;
+    }
+
+    // Circuit open: wait for the next probe instead of sending into a failing API
+    if (this.breaker && !this.breaker.allowRequest()) {
+      this.scheduleFlush();
+      return;
+    }
+
     this.cancelScheduledFlush();
 
-    const items = this.queue;
-    this.queue = [];
+    const limits = { maxItems: this.config.batchSize, maxBytes: this.config.maxBatchBytes };
+    const batches = this.groupByApiKey(this.queue.drain()).flatMap((items) =>
+      this.traceBuffer ? packTraces(groupByTrace(items), limits) : splitBatches(items, limits)
+    );
 
-    this.flushPromise = this.sendBatch(items).finally(() => {
+    this.flushPromise = this.sendBatches(batches).finally(() => {
       this.flushPromise = null;
+      // Items enqueued while this batch was in flight (or deferred by it) still need a flush
+      if (this.queue.length > 0 || this.deferred.size > 0) {
+        this.scheduleFlush();
+      }
     });
 
     return this.flushPromise;
   }
 
+  /**
+   * SpanExporter: queue a batch for sending
+   */
+  export(batch: CreateTraceRequest[]): void {
+    for (const trace of batch) {
+      this.enqueue(trace);
+    }
+  }
+
+  /**
+   * SpanExporter: send everything queued
+   */
+  forceFlush(): Promise<void> {
+    return this.flush();
+  }
+
+  /**
+   * SpanExporter: stop accepting spans, send everything queued and wait for pending disk writes
+   * Spans the API won't take right now (throttled, circuit open) stay in the spool, if any
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+    this.cancelScheduledFlush();
+    // Unfinished traces go out marked incomplete
+    this.traceBuffer?.drain();
+
+    while (this.queue.length > 0 || this.flushPromise) {
+      // A batch already in flight: wait for it, then send what was queued meanwhile
+      if (this.flushPromise) {
+        await this.flushPromise;
+        continue;
+      }
+
+      const queued = this.queue.length;
+      await this.flush();
+      // No progress: the API is throttling us or the circuit is open
+      if (this.queue.length >= queued) break;
+    }
+
+    await this.spool?.close();
+  }
+
   /**
    * Get pending count (for debugging)
    */
   getPendingCount(): number {
-    return this.queue.length;
+    return this.queue.length + this.deferred.size + (this.traceBuffer?.getBufferedCount() ?? 0);
+  }
+
+  /**
+   * Get transport stats
+   */
+  getStats(): TransportStats {
+    const throttled = this.isThrottled();
+    return {
+      enqueuedSpans: this.enqueuedSpans,
+      sentSpans: this.sentSpans,
+      retriedSpans: this.retriedSpans,
+      failedBatches: this.failedBatches,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      lastSuccessAt: this.lastSuccessAt,
+      averageLatencyMs: this.sentBatches > 0 ? Math.round(this.totalLatencyMs / this.sentBatches) : 0,
+      throttled,
+      throttledUntil: throttled ? this.throttledUntil : 0,
+      throttleCount: this.throttleCount,
+      queueSize: this.queue.length,
+      heldSpans: this.traceBuffer?.getBufferedCount() ?? 0,
+      queueBytes: this.queue.bytes,
+      droppedSpans: this.droppedSpans,
+      circuitState: this.breaker?.getState() ?? 'closed',
+    };
   }
 
   // ─────────────────────────────────────────────────────────────
@@ -112,12 +454,205 @@ export class Transport {
   // ─────────────────────────────────────────────────────────────
 
   private scheduleFlush(): void {
-    if (this.flushTimer !== null) return;
+    if (this.flushTimer !== null || this.closed) return;
+
+    const throttleRemainingMs = this.throttledUntil - Date.now();
+    const circuitRemainingMs = (this.breaker?.getRetryAt() ?? 0) - Date.now();
+    const delayMs = Math.max(this.config.flushIntervalMs, throttleRemainingMs, circuitRemainingMs);
 
     this.flushTimer = setTimeout(() => {
       this.flushTimer = null;
       this.flush();
-    }, this.config.flushIntervalMs);
+    }, delayMs);
+  }
+
+  /**
+   * Add spans to the queue and flush once a batch is full
+   */
+  private pushToQueue(items: CreateTraceRequest[], spooled: boolean): void {
+    const dropped: CreateTraceRequest[] = [];
+    for (const item of items) {
+      const evicted = this.queue.push(item);
+      if (!spooled && !evicted.includes(item)) {
+        this.spool?.append(item);
+      }
+      dropped.push(...evicted);
+    }
+    this.recordDropped(dropped);
+
+    if (this.queue.length >= this.config.batchSize || this.queue.bytes >= this.config.maxBatchBytes) {
+      this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * deliveryMode 'trace': queue a released trace with its marker
+   */
+  private queueTrace(spans: CreateTraceRequest[], complete: boolean): void {
+    const traceId = spans[0].traceId;
+    if (traceId) {
+      const marker: TraceMarker = { traceId, spanCount: spans.length, complete };
+      for (const span of spans) {
+        this.traceMarkers.set(span, marker);
+      }
+    }
+    this.pushToQueue(spans, true);
+  }
+
+  /**
+   * Markers for the traces in a batch (deliveryMode 'trace')
+   */
+  private getTraceMarkers(items: CreateTraceRequest[]): TraceMarker[] {
+    const markers = new Set<TraceMarker>();
+    for (const item of items) {
+      const marker = this.traceMarkers.get(item);
+      if (marker) markers.add(marker);
+    }
+    return [...markers];
+  }
+
+  /**
+   * Account for spans evicted by the queue's overflow policy
+   */
+  private recordDropped(dropped: CreateTraceRequest[]): void {
+    if (dropped.length === 0) {
+      this.overflowing = false;
+      return;
+    }
+
+    this.droppedSpans += dropped.length;
+    this.spool?.ack(dropped);
+
+    // Warn once per overflow episode, not once per span
+    if (!this.overflowing) {
+      this.overflowing = true;
+      spansDropped(dropped.length, this.config.queueOverflowPolicy, this.droppedSpans);
+    }
+  }
+
+  /**
+   * Account for spans discarded while the circuit is open (queuePolicy: 'drop')
+   */
+  private dropWhileOpen(items: CreateTraceRequest[]): void {
+    if (items.length === 0) return;
+
+    this.droppedSpans += items.length;
+    this.spool?.ack(items);
+
+    // Warn once per open episode
+    if (!this.droppingWhileOpen) {
+      this.droppingWhileOpen = true;
+      spansDropped(items.length, 'drop', this.droppedSpans, 'Ingest circuit open');
+    }
+  }
+
+  /**
+   * Keep the spans of a batch that failed with a retryable error for another attempt
+   * Only spans on disk are kept, so the spool's size cap bounds them; the rest are dropped
+   */
+  private defer(items: CreateTraceRequest[]): void {
+    for (const item of items) {
+      if (this.spool?.has(item)) {
+        this.deferred.add(item);
+      } else {
+        this.droppedSpans++;
+      }
+    }
+  }
+
+  /**
+   * Put deferred spans back at the front of the queue
+   */
+  private requeueDeferred(): void {
+    if (this.deferred.size === 0) return;
+
+    const items = [...this.deferred];
+    this.deferred.clear();
+    this.recordDropped(this.queue.unshift(items));
+  }
+
+  /**
+   * Account for deferred spans whose spool segment was dropped by the size cap
+   * Spans still queued keep going; only their disk copy is gone
+   */
+  private dropEvicted(items: CreateTraceRequest[]): void {
+    for (const item of items) {
+      if (this.deferred.delete(item)) {
+        this.droppedSpans++;
+      }
+    }
+  }
+
+  /**
+   * Decide which project a span goes to: routeSpan, then its projectKey, then the default apiKey
+   * Returns false when no key applies
+   */
+  private assignApiKey(trace: CreateTraceRequest): boolean {
+    let apiKey: string | undefined;
+    try {
+      apiKey = this.routeSpan?.(trace);
+    } catch (err) {
+      warn('routeSpan threw, using the default project', err instanceof Error ? err.message : err);
+    }
+
+    apiKey ??= getProjectKey(trace) ?? (this.config.apiKey || undefined);
+    if (!apiKey) return false;
+
+    this.apiKeys.set(trace, apiKey);
+    return true;
+  }
+
+  /**
+   * Split spans into per-project groups, keeping their order within each group
+   */
+  private groupByApiKey(items: CreateTraceRequest[]): CreateTraceRequest[][] {
+    const groups = new Map<string, CreateTraceRequest[]>();
+    for (const item of items) {
+      const apiKey = this.apiKeys.get(item) ?? this.config.apiKey;
+      const group = groups.get(apiKey);
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(apiKey, [item]);
+      }
+    }
+    return [...groups.values()];
+  }
+
+  private recordSuccess(count: number, latencyMs: number): void {
+    this.sentSpans += count;
+    this.sentBatches++;
+    this.totalLatencyMs += latencyMs;
+    this.lastSuccessAt = Date.now();
+  }
+
+  /**
+   * Account for a batch given up on
+   * Whether its spans are dropped or kept for a later attempt is up to the caller
+   */
+  private recordFailure(error: unknown): void {
+    this.failedBatches++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastErrorAt = Date.now();
+  }
+
+  private isThrottled(): boolean {
+    return Date.now() < this.throttledUntil;
+  }
+
+  /**
+   * Pause sending for the server-requested duration
+   */
+  private throttle(delayMs: number, reason: string): void {
+    const pauseMs = Math.min(delayMs, MAX_THROTTLE_MS);
+    const until = Date.now() + pauseMs;
+    if (until <= this.throttledUntil) return;
+
+    this.throttledUntil = until;
+    this.throttleCount++;
+    throttled(pauseMs, reason, this.queue.length);
   }
 
   private cancelScheduledFlush(): void {
@@ -127,27 +662,172 @@ export class Transport {
     }
   }
 
-  private async sendBatch(items: CreateTraceRequest[]): Promise<void> {
-    if (items.length === 0) return;
+  /**
+   * Send batches one after another
+   * If the API throttles us or the circuit opens, the unsent batches go back to the front of the queue
+   */
+  private async sendBatches(batches: CreateTraceRequest[][]): Promise<void> {
+    for (let i = 0; i < batches.length; i++) {
+      if (this.breaker && !this.breaker.allowRequest()) {
+        const rest = batches.slice(i).flat();
+        if (this.breaker.queuePolicy === 'drop') {
+          this.dropWhileOpen(rest);
+        } else {
+          this.recordDropped(this.queue.unshift(rest));
+        }
+        return;
+      }
+
+      const requeue = await this.sendBatch(batches[i]);
+      if (requeue.length > 0) {
+        this.recordDropped(this.queue.unshift([...requeue, ...batches.slice(i + 1).flat()]));
+        return;
+      }
+    }
+  }
+
+  /**
+   * Send one batch with retries
+   * Returns the spans to put back in the queue (when throttled)
+   */
+  private async sendBatch(items: CreateTraceRequest[]): Promise<CreateTraceRequest[]> {
+    if (items.length === 0) return [];
 
     const startTime = Date.now();
     batchSend(items.length, `${this.config.endpoint}/api/v1/ingest`);
 
+    // Same key for every attempt: a retry after a timeout that actually succeeded is deduplicated
+    const idempotencyKey = generateId();
+
+    // A half-open probe gets a single attempt
+    const maxRetries = this.breaker?.getState() === 'half-open' ? 0 : this.config.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const events = items.map((item) => fitSpan(item, this.config.maxBatchBytes));
+        const traces = this.getTraceMarkers(items);
+        const requestStart = Date.now();
+        await this.request('POST', '/api/v1/ingest', traces.length > 0 ? { events, traces } : { events }, {
+          apiKey: this.apiKeys.get(items[0]),
+          idempotencyKey,
+        });
+        this.recordSuccess(items.length, Date.now() - requestStart);
+        batchSuccess(items.length, Date.now() - startTime);
+        callHook('onBatchSent', this.hooks.onBatchSent, {
+          exporter: this.name,
+          spans: items,
+          durationMs: Date.now() - startTime,
+        });
+        this.breaker?.recordSuccess();
+        this.droppingWhileOpen = false;
+        this.spool?.ack(items);
+        this.requeueDeferred();
+        return [];
+      } catch (error) {
+        // Rate limited: pause instead of burning retries, the caller requeues the batch
+        if (error instanceof HttpError && error.retryAfterMs !== undefined && isRetryableError(error)) {
+          this.throttle(error.retryAfterMs, `HTTP ${error.status}`);
+          return items;
+        }
+
+        // The server's body limit is lower than maxBatchBytes: halve the batch and try again
+        if (error instanceof HttpError && error.status === 413 && items.length > 1) {
+          const middle = Math.ceil(items.length / 2);
+          transportEvent('Batch too large, splitting', { count: items.length });
+          const requeue = await this.sendBatch(items.slice(0, middle));
+          if (requeue.length > 0) {
+            return [...requeue, ...items.slice(middle)];
+          }
+          return this.sendBatch(items.slice(middle));
+        }
+
+        if (attempt >= maxRetries || !isRetryableError(error)) {
+          if (isRetryableError(error)) {
+            this.breaker?.recordFailure();
+          } else {
+            // The API is up, it just rejected this batch
+            this.breaker?.recordSuccess();
+          }
+
+          this.recordFailure(error);
+          batchError(items.length, error);
+          callHook('onExportError', this.hooks.onExportError, {
+            exporter: this.name,
+            error: error instanceof Error ? error : new Error(String(error)),
+            spans: items,
+          });
+
+          if (this.breaker?.getState() === 'open') {
+            // Kept batches go out again once a probe succeeds
+            if (this.breaker.queuePolicy === 'keep') return items;
+            this.dropWhileOpen([...items, ...this.queue.drain()]);
+            return [];
+          }
+
+          // Retryable failures stay spooled and go out again once the API recovers;
+          // rejected batches would fail again
+          if (this.spool && isRetryableError(error)) {
+            this.defer(items);
+          } else {
+            this.droppedSpans += items.length;
+            this.spool?.ack(items);
+          }
+          // Don't rethrow - observability should never crash the app
+          return [];
+        }
+
+        const delayMs = this.getRetryDelay(attempt);
+        this.retriedSpans += items.length;
+        transportEvent('Retrying batch', {
+          count: items.length,
+          attempt: attempt + 1,
+          maxRetries,
+          delayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter, capped at retryMaxDelayMs
+   */
+  private getRetryDelay(attempt: number): number {
+    const exponential = this.config.retryInitialDelayMs * 2 ** attempt;
+    const capped = Math.min(exponential, this.config.retryMaxDelayMs);
+    return Math.round(Math.random() * capped);
+  }
+
+  /**
+   * Compress a request body when it's large enough to be worth it
+   * Returns null when compression is disabled, not beneficial or unsupported by the runtime
+   */
+  private async compressBody(body: string, uncompressed = false): Promise<CompressedBody | null> {
+    const encoding = this.config.compression;
+    if (!encoding || this.compressionRejected || uncompressed) return null;
+    if (body.length < this.config.compressionThresholdBytes) return null;
+
     try {
-      await this.request('POST', '/api/v1/ingest', { events: items });
-      batchSuccess(items.length, Date.now() - startTime);
-    } catch (error) {
-      batchError(items.length, error);
-      // Don't rethrow - observability should never crash the app
+      const data = await compress(body, encoding);
+      if (!data || data.byteLength >= body.length) return null;
+      return { encoding, data, bytes: data.byteLength };
+    } catch (err) {
+      transportEvent('Compression failed, sending uncompressed', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
     }
   }
 
-  private async request(method: string, path: string, body?: unknown): Promise<unknown> {
+  private async request(method: string, path: string, body?: unknown, options: RequestOptions = {}): Promise<unknown> {
+    const { apiKey = this.config.apiKey, idempotencyKey, uncompressed } = options;
     const url = `${this.config.endpoint}${path}`;
     const controller = new AbortController();
     const bodyStr = body ? JSON.stringify(body) : undefined;
+    const compressed = bodyStr ? await this.compressBody(bodyStr, uncompressed) : null;
 
-    requestDetails(method, url, bodyStr?.length ?? 0);
+    requestDetails(method, url, bodyStr?.length ?? 0, compressed ?? undefined);
 
     const timeoutId = setTimeout(() => {
       controller.abort();
@@ -156,22 +836,58 @@ export class Transport {
     const startTime = Date.now();
 
     try {
-      const response = await fetch(url, {
+      const extraHeaders = typeof this.headers === 'function' ? await this.headers() : this.headers;
+      const dispatcher = await this.proxyDispatcher;
+      const fetchFn = this.fetchImpl ?? fetch;
+
+      const response = await fetchFn(url, {
         method,
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Authorization': `Bearer ${apiKey}`,
+          ...extraHeaders,
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+          ...(compressed ? { 'Content-Encoding': compressed.encoding } : {}),
         },
-        body: bodyStr,
+        body: compressed ? compressed.data : bodyStr,
         signal: controller.signal,
-      });
+        // undici extension: route the request through the proxy
+        ...(dispatcher ? { dispatcher } : {}),
+      } as RequestInit);
 
       clearTimeout(timeoutId);
       responseDetails(response.status, Date.now() - startTime);
 
+      // Server doesn't accept compressed bodies: stop compressing and resend as-is
+      if (response.status === 415 && compressed) {
+        this.compressionRejected = true;
+        transportEvent('Compression rejected by server, sending uncompressed', { encoding: compressed.encoding });
+        return this.request(method, path, body, options);
+      }
+
+      // Servers that don't understand Content-Encoding usually answer 400: resend once as-is,
+      // and stop compressing if that goes through
+      if (response.status === 400 && compressed) {
+        transportEvent('Compressed body rejected with 400, resending uncompressed', { encoding: compressed.encoding });
+        const result = await this.request(method, path, body, { ...options, uncompressed: true });
+        this.compressionRejected = true;
+        return result;
+      }
+
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+        const retryAfterMs = response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers) ?? parseRateLimitReset(response.headers)
+          : undefined;
+        throw new HttpError(response.status, errorText, retryAfterMs);
+      }
+
+      // Quota exhausted: pause before the server has to reject us
+      if (response.headers.get('ratelimit-remaining') === '0' || response.headers.get('x-ratelimit-remaining') === '0') {
+        const resetMs = parseRateLimitReset(response.headers);
+        if (resetMs !== undefined) {
+          this.throttle(resetMs, 'rate limit exhausted');
+        }
       }
 
       const text = await response.text();
@@ -187,3 +903,142 @@ export class Transport {
     }
   }
 }
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/** Sent in the `traces` array of an ingest body (deliveryMode 'trace') */
+interface TraceMarker {
+  traceId: string;
+  /** Spans in the whole trace, which may span several batches if it's too large for one */
+  spanCount: number;
+  /** False when sent before its root span completed (hold time, buffer limit or shutdown) */
+  complete: boolean;
+}
+
+interface RequestOptions {
+  /** Project API key (default: the configured apiKey) */
+  apiKey?: string;
+  idempotencyKey?: string;
+  /** Send the body as-is (resend after a 400 for a compressed body) */
+  uncompressed?: boolean;
+}
+
+interface CompressedBody {
+  encoding: CompressionEncoding;
+  data: Uint8Array;
+  bytes: number;
+}
+
+/**
+ * Compress with the web-standard CompressionStream (Node 18+, Deno, Bun, Workers),
+ * falling back to zlib on older Node.js. Returns null if neither is available.
+ */
+async function compress(body: string, encoding: CompressionEncoding): Promise<Uint8Array | null> {
+  if (typeof CompressionStream !== 'undefined') {
+    const stream = new CompressionStream(encoding);
+    const writer = stream.writable.getWriter();
+    // Errors surface through the readable side below
+    writer.write(new TextEncoder().encode(body)).catch(() => undefined);
+    writer.close().catch(() => undefined);
+    return new Uint8Array(await new Response(stream.readable as unknown as ConstructorParameters<typeof Response>[0]).arrayBuffer());
+  }
+
+  try {
+    const zlib = await import('node:zlib');
+    const buffer = encoding === 'gzip' ? zlib.gzipSync(body) : zlib.deflateSync(body);
+    return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create an undici ProxyAgent for Node's fetch
+ * Resolves to null (direct connection) when undici isn't installed
+ */
+async function loadProxyDispatcher(proxyUrl: string): Promise<unknown> {
+  // Not a literal so bundlers don't try to resolve the optional dependency
+  const moduleName = 'undici';
+  try {
+    const { ProxyAgent } = await import(moduleName);
+    transportEvent('Using proxy', { proxy: proxyUrl.replace(/\/\/[^@/]*@/, '//***@') });
+    return new ProxyAgent(proxyUrl);
+  } catch {
+    warn('The proxy option requires the undici package (npm install undici). Connecting directly.');
+    return null;
+  }
+}
+
+/**
+ * Group spans by traceId in order of first appearance; spans outside trace() stand alone
+ */
+function groupByTrace(items: CreateTraceRequest[]): CreateTraceRequest[][] {
+  const groups: CreateTraceRequest[][] = [];
+  const byTraceId = new Map<string, CreateTraceRequest[]>();
+
+  for (const item of items) {
+    if (!item.traceId) {
+      groups.push([item]);
+      continue;
+    }
+    const group = byTraceId.get(item.traceId);
+    if (group) {
+      group.push(item);
+    } else {
+      const created = [item];
+      byTraceId.set(item.traceId, created);
+      groups.push(created);
+    }
+  }
+
+  return groups;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse Retry-After (delta-seconds or HTTP date) into ms
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse RateLimit-Reset / X-RateLimit-Reset into ms.
+ * Accepts delta-seconds or an epoch timestamp in seconds.
+ */
+function parseRateLimitReset(headers: Headers): number | undefined {
+  const value = headers.get('ratelimit-reset') ?? headers.get('x-ratelimit-reset');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds)) return undefined;
+
+  // Values this large are epoch seconds, not a delta
+  if (seconds > 1_000_000_000) {
+    return Math.max(0, seconds * 1000 - Date.now());
+  }
+  return Math.max(0, seconds * 1000);
+}
+
+// Type declarations for runtime detection
+declare const CompressionStream: {
+  new (format: CompressionEncoding): { readable: ReadableStream<Uint8Array>; writable: WritableStream<Uint8Array> };
+} | undefined;
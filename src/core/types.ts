@@ -26,7 +26,150 @@ export interface RedactionConfig {
   phones?: boolean;
 }
 
-export interface LelemonConfig {
+export interface RetryConfig {
+  /** Max retry attempts per batch after the first send (default: 3, 0 disables retries) */
+  maxRetries?: number;
+  /** Base delay before the first retry in ms, doubled on each attempt (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms (default: 5000) */
+  maxDelayMs?: number;
+}
+
+/** What to drop when the transport queue is full */
+export type QueueOverflowPolicy = 'drop-newest' | 'drop-oldest' | 'drop-non-error';
+
+/** How spans are grouped into ingest batches: as they arrive, or one whole trace at a time */
+export type DeliveryMode = 'span' | 'trace';
+
+/**
+ * Which prompt/completion content is captured: only 'input', only 'output',
+ * or none (false). Unset captures both. Token, latency and error telemetry are always kept.
+ */
+export type CaptureContent = false | 'input' | 'output';
+
+/** Content-Encoding used for ingest payloads */
+export type CompressionEncoding = 'gzip' | 'deflate';
+
+/** State of the ingest circuit breaker */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failed batches (after retries) that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Wait before the first probe once open in ms, doubled after each failed probe (default: 10000) */
+  resetTimeoutMs?: number;
+  /** Upper bound for the probe backoff in ms (default: 300000) */
+  maxResetTimeoutMs?: number;
+  /** Keep queued spans while open, or drop them and anything captured until it closes (default: 'keep') */
+  queuePolicy?: 'keep' | 'drop';
+}
+
+export interface SpoolConfig {
+  /** Directory for spool segments (created if missing). Node.js only */
+  directory: string;
+  /** Max total spool size on disk in bytes (default: 50MB). Oldest segments are dropped first */
+  maxBytes?: number;
+  /** Rotate to a new segment after this many bytes (default: 5MB) */
+  maxSegmentBytes?: number;
+}
+
+/** What a sampling function sees. For trace() the model is the trace name and the provider is 'agent' */
+export interface SamplingContext {
+  model: string;
+  provider: ProviderName;
+  name?: string;
+  userId?: string;
+  sessionId?: string;
+  tags?: string[];
+}
+
+/**
+ * Head sampling: a ratio between 0 and 1, or a function returning
+ * a decision (boolean) or a ratio for this trace
+ */
+export type SamplingConfig = number | ((context: SamplingContext) => boolean | number);
+
+/**
+ * Tail sampling: buffer each trace until its root span completes, then keep it
+ * only if a rule matches. Traces matching no rule are kept with `fallbackRatio`.
+ */
+export interface TailSamplingConfig {
+  /** Keep traces with at least one errored span (default: true) */
+  keepErrors?: boolean;
+  /** Keep traces that took at least this long in ms */
+  minDurationMs?: number;
+  /** Keep traces that used at least this many tokens (input + output) */
+  minTotalTokens?: number;
+  /** Keep traces with any of these tags */
+  tags?: string[];
+  /** Custom rule, return true to keep the trace */
+  rule?: (spans: CreateTraceRequest[]) => boolean;
+  /** Fraction of the remaining traces to keep (default: 0) */
+  fallbackRatio?: number;
+  /** Max spans buffered across unfinished traces; the oldest trace is decided early when full (default: 10000) */
+  maxBufferedSpans?: number;
+  /** Unfinished traces older than this are decided with the spans seen so far, in ms (default: 300000) */
+  maxTraceAgeMs?: number;
+}
+
+/**
+ * Destination for captured spans (e.g. a file, an OTLP collector, your own pipeline).
+ * Spans are handed over in batches; errors are logged and never reach your app.
+ */
+export interface SpanExporter {
+  /** Name used in logs */
+  name?: string;
+  /** Export a batch of spans */
+  export(batch: CreateTraceRequest[]): Promise<void> | void;
+  /** Flush anything the exporter buffers internally */
+  forceFlush?(): Promise<void> | void;
+  /** Flush and release resources (called on shutdown) */
+  shutdown(): Promise<void> | void;
+}
+
+/** fetch-compatible function used for ingest requests */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/** Extra request headers, or a function computing them before each request (e.g. rotating tokens) */
+export type HeadersConfig =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+export interface BatchSentEvent {
+  /** Exporter that delivered the batch ('lelemon' for the HTTP transport) */
+  exporter: string;
+  /** Spans in the batch */
+  spans: CreateTraceRequest[];
+  /** Time to deliver the batch, including retries, in ms */
+  durationMs: number;
+}
+
+export interface ExportErrorEvent {
+  /** Exporter that failed ('lelemon' for the HTTP transport), or 'capture' when building a span failed */
+  exporter: string;
+  error: Error;
+  /** Spans that were not delivered (empty for capture failures) */
+  spans: CreateTraceRequest[];
+}
+
+/**
+ * Callbacks for the span lifecycle
+ * Errors thrown (or rejected) by a hook are logged and never reach the LLM call.
+ */
+export interface LelemonHooks {
+  /** Called for every span entering the export pipeline */
+  onSpanCaptured?: (span: CreateTraceRequest) => void | Promise<void>;
+  /** Called after an exporter delivered a batch */
+  onBatchSent?: (event: BatchSentEvent) => void | Promise<void>;
+  /** Called when a batch is given up on or a span could not be captured */
+  onExportError?: (event: ExportErrorEvent) => void | Promise<void>;
+}
+
+/**
+ * SDK configuration
+ * Scalar options can also come from LELEMON_* environment variables; init() arguments win
+ */
+export interface LelemonConfig extends LelemonHooks {
   /** API key (or set LELEMON_API_KEY env var) */
   apiKey?: string;
   /** API endpoint (default: https://api.lelemon.dev) */
@@ -35,16 +178,84 @@ export interface LelemonConfig {
   debug?: boolean;
   /** Disable tracing */
   disabled?: boolean;
+  /** Throw a LelemonConfigError on invalid options outside production, instead of warning (default: false) */
+  strict?: boolean;
   /** Batch size before flush (default: 10) */
   batchSize?: number;
+  /** Max serialized size of one ingest request in bytes; larger batches are split (default: 1 MB) */
+  maxBatchBytes?: number;
+  /** 'trace' holds each trace's spans and sends them together once its root span completes (default: 'span') */
+  deliveryMode?: DeliveryMode;
+  /** With deliveryMode 'trace', send unfinished traces after this many ms (default: 30000) */
+  traceHoldMs?: number;
   /** Auto-flush interval in ms (default: 1000) */
   flushIntervalMs?: number;
   /** Request timeout in ms (default: 10000) */
   requestTimeoutMs?: number;
+  /** fetch implementation for ingest requests, e.g. with mTLS (default: global fetch) */
+  fetch?: FetchFunction;
+  /** Extra headers sent with every ingest request */
+  headers?: HeadersConfig;
+  /** HTTP(S) proxy URL for ingest requests (Node.js, requires the `undici` package) */
+  proxy?: string;
+  /** Pick the project API key for a span (multi-project routing); undefined falls back to its projectKey, then apiKey */
+  routeSpan?: (span: CreateTraceRequest) => string | undefined;
+  /** Max spans held in memory waiting to be sent (default: 10000) */
+  maxQueueSize?: number;
+  /** Max serialized bytes held in memory waiting to be sent (default: 50MB) */
+  maxQueueBytes?: number;
+  /** What to drop when the queue is full (default: 'drop-newest') */
+  queueOverflowPolicy?: QueueOverflowPolicy;
+  /**
+   * Compress ingest payloads, or false to disable (default: 'gzip')
+   * Turned off automatically when the server rejects compressed bodies (415, or a 400 an uncompressed resend avoids)
+   */
+  compression?: CompressionEncoding | false;
+  /** Only compress payloads of at least this many bytes (default: 8192) */
+  compressionThresholdBytes?: number;
+  /** Retry policy for failed batches (network errors, 408, 429, 5xx) */
+  retry?: RetryConfig;
+  /** Fraction of traces to keep, decided once per trace() (default: 1, keep everything) */
+  sampling?: SamplingConfig;
+  /** Keep only interesting traces (errors, slow, expensive), decided when each trace completes */
+  tailSampling?: TailSamplingConfig;
+  /** Emit a `lelemon.stats` span with getStats() every N ms (default: off) */
+  selfReportIntervalMs?: number;
+  /** Stop sending while the ingest API keeps failing, or false to disable */
+  circuitBreaker?: CircuitBreakerConfig | false;
+  /** Additional exporters, run alongside the Lelemon HTTP exporter (enabled when an API key is set) */
+  exporters?: SpanExporter[];
+  /** Persist queued spans to disk so they survive restarts and API outages */
+  spool?: SpoolConfig;
   /** Service metadata for telemetry */
   service?: ServiceConfig;
   /** Optional PII redaction configuration */
   redaction?: RedactionConfig;
+  /** Metadata-only mode: false drops prompts and completions, 'input'/'output' keeps one side (default: capture both) */
+  captureContent?: CaptureContent;
+}
+
+/** A problem found when validating LelemonConfig */
+export interface ConfigDiagnostic {
+  /** Config path, e.g. 'retry.maxRetries' or 'redaction.patterns[0]' */
+  field: string;
+  /** What's wrong with the value */
+  problem: string;
+  /** How to fix it */
+  fix: string;
+}
+
+/** Options updateConfig() can change without re-initializing; each given key replaces the current value */
+export type RuntimeConfig = Pick<LelemonConfig, 'redaction' | 'captureContent' | 'sampling' | 'service' | 'debug' | 'endpoint'>;
+
+export interface ShutdownOptions {
+  /** Max time to wait for queued spans to be sent in ms (default: 5000) */
+  timeoutMs?: number;
+}
+
+export interface ShutdownHooksOptions extends ShutdownOptions {
+  /** Signals that trigger shutdown (default: ['SIGTERM', 'SIGINT']) */
+  signals?: string[];
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -135,6 +346,10 @@ export interface ObserveOptions {
   metadata?: Record<string, unknown>;
   /** Tags for filtering */
   tags?: string[];
+  /** API key of the Lelemon project these calls are sent to (multi-project routing) */
+  projectKey?: string;
+  /** Restrict captured content for these calls; combined with init(), the most restrictive wins */
+  captureContent?: CaptureContent;
 }
 
 // ─────────────────────────────────────────────────────────────
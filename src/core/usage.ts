@@ -0,0 +1,128 @@
+/**
+ * Usage Extraction
+ *
+ * Client-side extraction of token usage, finish reasons and output text from captured spans.
+ * The Lelemon API does this server-side from `rawResponse`; exporters that
+ * don't go through the API (OTLP, console, sampling rules) use these helpers.
+ *
+ * Understands the raw response shapes of every supported provider:
+ * - OpenAI / OpenRouter chat: usage.prompt_tokens / completion_tokens
+ * - OpenAI responses, Anthropic: usage.input_tokens / output_tokens
+ * - Bedrock Converse: usage.inputTokens / outputTokens
+ * - Gemini: usageMetadata.promptTokenCount / candidatesTokenCount
+ */
+
+import type { CreateTraceRequest, TokenUsage } from './types';
+import { getNestedValue, isValidNumber } from '../providers/base';
+
+/**
+ * Extract token usage from a span (legacy fields first, then rawResponse)
+ */
+export function extractUsage(trace: CreateTraceRequest): TokenUsage | null {
+  if (isValidNumber(trace.inputTokens) || isValidNumber(trace.outputTokens)) {
+    const inputTokens = trace.inputTokens ?? 0;
+    const outputTokens = trace.outputTokens ?? 0;
+    if (inputTokens > 0 || outputTokens > 0) {
+      return {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+        cacheReadTokens: trace.cacheReadTokens,
+        cacheWriteTokens: trace.cacheWriteTokens,
+        reasoningTokens: trace.reasoningTokens,
+      };
+    }
+  }
+
+  const raw = trace.rawResponse;
+  if (!raw || typeof raw !== 'object') return null;
+
+  const usage = getNestedValue(raw, 'usage');
+  if (usage && typeof usage === 'object') {
+    const inputTokens = firstNumber(usage, ['prompt_tokens', 'input_tokens', 'inputTokens']);
+    const outputTokens = firstNumber(usage, ['completion_tokens', 'output_tokens', 'outputTokens']);
+    if (inputTokens === undefined && outputTokens === undefined) return null;
+
+    return {
+      inputTokens: inputTokens ?? 0,
+      outputTokens: outputTokens ?? 0,
+      totalTokens: firstNumber(usage, ['total_tokens', 'totalTokens']) ?? (inputTokens ?? 0) + (outputTokens ?? 0),
+      cacheReadTokens: firstNumber(usage, [
+        'cache_read_input_tokens',
+        'cacheReadInputTokens',
+        'prompt_tokens_details.cached_tokens',
+        'input_tokens_details.cached_tokens',
+      ]),
+      cacheWriteTokens: firstNumber(usage, ['cache_creation_input_tokens', 'cacheWriteInputTokens']),
+      reasoningTokens: firstNumber(usage, [
+        'completion_tokens_details.reasoning_tokens',
+        'output_tokens_details.reasoning_tokens',
+      ]),
+    };
+  }
+
+  const usageMetadata = getNestedValue(raw, 'usageMetadata');
+  if (usageMetadata && typeof usageMetadata === 'object') {
+    const inputTokens = firstNumber(usageMetadata, ['promptTokenCount']) ?? 0;
+    const outputTokens = firstNumber(usageMetadata, ['candidatesTokenCount']) ?? 0;
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: firstNumber(usageMetadata, ['totalTokenCount']) ?? inputTokens + outputTokens,
+      cacheReadTokens: firstNumber(usageMetadata, ['cachedContentTokenCount']),
+      reasoningTokens: firstNumber(usageMetadata, ['thoughtsTokenCount']),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Extract why the model stopped generating (stop, length, tool_use, ...)
+ */
+export function extractFinishReason(trace: CreateTraceRequest): string | undefined {
+  if (trace.stopReason) return trace.stopReason;
+
+  const raw = trace.rawResponse;
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const reason =
+    getNestedValue(raw, 'choices.0.finish_reason') ??
+    getNestedValue(raw, 'stop_reason') ??
+    getNestedValue(raw, 'stopReason') ??
+    getNestedValue(raw, 'candidates.0.finishReason');
+
+  return typeof reason === 'string' ? reason : undefined;
+}
+
+/**
+ * Extract the generated text from a span (manual output first, then rawResponse)
+ */
+export function extractOutputText(trace: CreateTraceRequest): unknown {
+  if (trace.output !== undefined) return trace.output;
+
+  const raw = trace.rawResponse;
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const text =
+    getNestedValue(raw, 'choices.0.message.content') ??
+    getNestedValue(raw, 'choices.0.text') ??
+    getNestedValue(raw, 'output_text') ??
+    getNestedValue(raw, 'content.0.text') ??
+    getNestedValue(raw, 'output.message.content.0.text') ??
+    getNestedValue(raw, 'candidates.0.content.parts.0.text');
+
+  return typeof text === 'string' ? text : undefined;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function firstNumber(obj: object, paths: string[]): number | undefined {
+  for (const path of paths) {
+    const value = getNestedValue(obj, path);
+    if (isValidNumber(value)) return value;
+  }
+  return undefined;
+}
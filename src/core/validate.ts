@@ -0,0 +1,325 @@
+/**
+ * Config Validation
+ *
+ * Checks a LelemonConfig against the option schema and reports typed
+ * diagnostics (field, problem, fix) instead of letting a bad value surface as
+ * odd runtime behavior:
+ * - wrong types ("1000" instead of 1000) and out-of-range numbers
+ * - malformed endpoint / proxy URLs
+ * - non-global RegExps in redaction.patterns (only the first match is redacted)
+ * - unknown options, with a "did you mean" suggestion
+ *
+ * Invalid options are dropped so defaults apply; non-global redaction patterns
+ * get the `g` flag added so nothing slips through. With `strict`, init()
+ * throws instead - except in production, where it only warns.
+ */
+
+import type { ConfigDiagnostic, LelemonConfig, SpanExporter } from './types';
+import { warn } from './logger';
+
+// ─────────────────────────────────────────────────────────────
+// Errors
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Thrown by init() in strict mode (outside production) when the config is invalid
+ */
+export class LelemonConfigError extends Error {
+  readonly diagnostics: ConfigDiagnostic[];
+
+  constructor(diagnostics: ConfigDiagnostic[]) {
+    super(`Invalid Lelemon config:\n${diagnostics.map((d) => `- ${formatDiagnostic(d)}`).join('\n')}`);
+    this.name = 'LelemonConfigError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────
+
+/** Problem description when the value is invalid, undefined when it's fine */
+type Check = (value: unknown) => string | undefined;
+
+interface Rule {
+  check: Check;
+  fix: string;
+  /** Never echo the value in diagnostics (keys, credentials) */
+  secret?: boolean;
+}
+
+function string(): Check {
+  return (value) => (typeof value === 'string' ? undefined : 'expected a string');
+}
+
+function boolean(): Check {
+  return (value) => (typeof value === 'boolean' ? undefined : 'expected true or false');
+}
+
+function integer(min: number): Check {
+  return (value) => (Number.isInteger(value) && (value as number) >= min ? undefined : `expected an integer >= ${min}`);
+}
+
+function number(min: number, max = Infinity): Check {
+  return (value) =>
+    typeof value === 'number' && value >= min && value <= max
+      ? undefined
+      : max === Infinity ? `expected a number >= ${min}` : `expected a number between ${min} and ${max}`;
+}
+
+function oneOf(...options: unknown[]): Check {
+  return (value) => (options.includes(value) ? undefined : `expected ${options.map((o) => JSON.stringify(o)).join(' | ')}`);
+}
+
+function fn(): Check {
+  return (value) => (typeof value === 'function' ? undefined : 'expected a function');
+}
+
+function url(): Check {
+  return (value) => {
+    if (typeof value !== 'string') return 'expected a URL string';
+    try {
+      const { protocol } = new URL(value);
+      return protocol === 'http:' || protocol === 'https:' ? undefined : 'expected an http(s) URL';
+    } catch {
+      return 'expected an absolute URL';
+    }
+  };
+}
+
+function object(): Check {
+  return (value) => (isPlainObject(value) ? undefined : 'expected an object');
+}
+
+function arrayOf(item: Check, description: string): Check {
+  return (value) => (Array.isArray(value) && value.every((v) => !item(v)) ? undefined : `expected an array of ${description}`);
+}
+
+function either(...checks: Check[]): (problem: string) => Check {
+  return (problem) => (value) => (checks.some((check) => !check(value)) ? undefined : problem);
+}
+
+const exporter: Check = (value) => {
+  const candidate = value as Partial<SpanExporter> | null;
+  return typeof candidate?.export === 'function' && typeof candidate.shutdown === 'function'
+    ? undefined
+    : 'expected export() and shutdown() methods';
+};
+
+const headerRecord: Check = (value) =>
+  isPlainObject(value) && Object.values(value).every((v) => typeof v === 'string') ? undefined : 'expected string values';
+
+// ─────────────────────────────────────────────────────────────
+// Schema
+// ─────────────────────────────────────────────────────────────
+
+const WHOLE_NUMBER_FIX = 'Use a whole number';
+
+/** Every option, keyed by config path. Nested objects list their fields under `parent.field` */
+const RULES: Record<string, Rule> = {
+  apiKey: { check: string(), fix: 'Pass the project API key as a string (starts with le_)', secret: true },
+  endpoint: { check: url(), fix: 'Use an absolute URL such as https://api.lelemon.dev' },
+  debug: { check: boolean(), fix: 'Use true or false' },
+  disabled: { check: boolean(), fix: 'Use true or false' },
+  strict: { check: boolean(), fix: 'Use true or false' },
+  batchSize: { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of 1 or more (default: 10)` },
+  maxBatchBytes: { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of bytes (default: 1048576)` },
+  deliveryMode: { check: oneOf('span', 'trace'), fix: "Use 'span' or 'trace'" },
+  traceHoldMs: { check: integer(0), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 30000)` },
+  flushIntervalMs: { check: integer(0), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 1000)` },
+  requestTimeoutMs: { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 10000)` },
+  fetch: { check: fn(), fix: 'Pass a fetch-compatible function' },
+  headers: { check: either(headerRecord, fn())('expected an object of strings or a function'), fix: "Use { 'X-Name': 'value' } or a function returning one", secret: true },
+  proxy: { check: url(), fix: 'Use an absolute URL such as http://proxy.internal:3128', secret: true },
+  routeSpan: { check: fn(), fix: 'Pass a function returning an API key or undefined' },
+  maxQueueSize: { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of 1 or more (default: 10000)` },
+  maxQueueBytes: { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of bytes (default: 52428800)` },
+  queueOverflowPolicy: { check: oneOf('drop-newest', 'drop-oldest', 'drop-non-error'), fix: "Use 'drop-newest', 'drop-oldest' or 'drop-non-error'" },
+  compression: { check: oneOf('gzip', 'deflate', false), fix: "Use 'gzip', 'deflate' or false" },
+  compressionThresholdBytes: { check: integer(0), fix: `${WHOLE_NUMBER_FIX} of bytes (default: 8192)` },
+  retry: { check: object(), fix: 'Use { maxRetries, initialDelayMs, maxDelayMs }' },
+  'retry.maxRetries': { check: integer(0), fix: `${WHOLE_NUMBER_FIX}; 0 disables retries` },
+  'retry.initialDelayMs': { check: integer(0), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 500)` },
+  'retry.maxDelayMs': { check: integer(0), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 5000)` },
+  sampling: { check: either(number(0, 1), fn())('expected a number between 0 and 1 or a function'), fix: 'Use a ratio such as 0.1, or a function returning a boolean or ratio' },
+  tailSampling: { check: object(), fix: 'Use an object of tail sampling rules' },
+  'tailSampling.keepErrors': { check: boolean(), fix: 'Use true or false' },
+  'tailSampling.minDurationMs': { check: number(0), fix: 'Use a number of milliseconds' },
+  'tailSampling.minTotalTokens': { check: number(0), fix: 'Use a number of tokens' },
+  'tailSampling.tags': { check: arrayOf(string(), 'strings'), fix: "Use an array such as ['debug']" },
+  'tailSampling.rule': { check: fn(), fix: 'Pass a function taking the trace spans and returning a boolean' },
+  'tailSampling.fallbackRatio': { check: number(0, 1), fix: 'Use a ratio such as 0.05' },
+  'tailSampling.maxBufferedSpans': { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of 1 or more (default: 10000)` },
+  'tailSampling.maxTraceAgeMs': { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 300000)` },
+  selfReportIntervalMs: { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of milliseconds, e.g. 60000` },
+  circuitBreaker: { check: either(object(), oneOf(false))('expected an object or false'), fix: 'Use circuit breaker options, or false to disable it' },
+  'circuitBreaker.failureThreshold': { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of 1 or more (default: 5)` },
+  'circuitBreaker.resetTimeoutMs': { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 10000)` },
+  'circuitBreaker.maxResetTimeoutMs': { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of milliseconds (default: 300000)` },
+  'circuitBreaker.queuePolicy': { check: oneOf('keep', 'drop'), fix: "Use 'keep' or 'drop'" },
+  exporters: { check: arrayOf(exporter, 'exporters'), fix: 'Pass SpanExporter objects with export() and shutdown()' },
+  spool: { check: object(), fix: "Use { directory: '/var/lib/app/lelemon' }" },
+  'spool.directory': { check: string(), fix: 'Use a directory path' },
+  'spool.maxBytes': { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of bytes (default: 52428800)` },
+  'spool.maxSegmentBytes': { check: integer(1), fix: `${WHOLE_NUMBER_FIX} of bytes (default: 5242880)` },
+  service: { check: object(), fix: 'Use { name, version, environment }' },
+  'service.name': { check: string(), fix: 'Use a string' },
+  'service.version': { check: string(), fix: 'Use a string' },
+  'service.environment': { check: string(), fix: 'Use a string' },
+  redaction: { check: object(), fix: 'Use { patterns, keys, emails, phones }' },
+  'redaction.patterns': { check: arrayOf((v) => (v instanceof RegExp ? undefined : 'not a RegExp'), 'RegExps'), fix: 'Use regex literals such as /sk-[a-z0-9]+/g' },
+  'redaction.keys': { check: arrayOf(string(), 'strings'), fix: "Use an array such as ['cpf']" },
+  'redaction.emails': { check: boolean(), fix: 'Use true or false' },
+  'redaction.phones': { check: boolean(), fix: 'Use true or false' },
+  captureContent: { check: oneOf(false, 'input', 'output'), fix: "Use false, 'input' or 'output'; leave it unset to capture both" },
+  onSpanCaptured: { check: fn(), fix: 'Pass a function' },
+  onBatchSent: { check: fn(), fix: 'Pass a function' },
+  onExportError: { check: fn(), fix: 'Pass a function' },
+};
+
+// ─────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Validate a config without applying it
+ * @returns One diagnostic per problem; empty when the config is valid
+ */
+export function validateConfig(config: LelemonConfig): ConfigDiagnostic[] {
+  return checkConfig(config).diagnostics;
+}
+
+/**
+ * Validate a config and return a copy that's safe to apply:
+ * invalid options removed, non-global redaction patterns made global
+ */
+export function checkConfig(config: LelemonConfig): { config: LelemonConfig; diagnostics: ConfigDiagnostic[] } {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const cleaned = checkObject(config as Record<string, unknown>, '', diagnostics);
+
+  const patterns = (cleaned.redaction as LelemonConfig['redaction'])?.patterns;
+  if (patterns?.some((pattern) => !pattern.global)) {
+    patterns.forEach((pattern, index) => {
+      if (pattern.global) return;
+      diagnostics.push({
+        field: `redaction.patterns[${index}]`,
+        problem: `${pattern} is not global, so only its first match in each string is redacted`,
+        fix: `Add the g flag: ${new RegExp(pattern.source, pattern.flags + 'g')}`,
+      });
+    });
+    cleaned.redaction = {
+      ...(cleaned.redaction as object),
+      patterns: patterns.map((pattern) => (pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g'))),
+    };
+  }
+
+  return { config: cleaned as LelemonConfig, diagnostics };
+}
+
+/**
+ * Warn about each diagnostic, or throw them together in strict mode outside production
+ */
+export function reportDiagnostics(diagnostics: ConfigDiagnostic[], strict: boolean): void {
+  if (diagnostics.length === 0) return;
+
+  if (strict && !isProduction()) {
+    throw new LelemonConfigError(diagnostics);
+  }
+
+  for (const diagnostic of diagnostics) {
+    warn(`Config issue at ${formatDiagnostic(diagnostic)}`);
+  }
+}
+
+/**
+ * One-line form of a diagnostic, for logs
+ */
+export function formatDiagnostic(diagnostic: ConfigDiagnostic): string {
+  return `${diagnostic.field}: ${diagnostic.problem}. ${diagnostic.fix}`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function checkObject(value: Record<string, unknown>, prefix: string, diagnostics: ConfigDiagnostic[]): Record<string, unknown> {
+  const cleaned: Record<string, unknown> = {};
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const path = prefix + key;
+    if (fieldValue === undefined) continue;
+
+    const rule = RULES[path];
+    if (!rule) {
+      const suggestion = suggest(key, prefix);
+      diagnostics.push({
+        field: path,
+        problem: 'unknown option',
+        fix: suggestion ? `Did you mean ${prefix}${suggestion}?` : 'Remove it; see LelemonConfig for supported options',
+      });
+      continue;
+    }
+
+    const problem = rule.check(fieldValue);
+    if (problem) {
+      diagnostics.push({
+        field: path,
+        problem: rule.secret ? problem : `${problem}, got ${describe(fieldValue)}`,
+        fix: rule.fix,
+      });
+      continue;
+    }
+
+    const isNested = isPlainObject(fieldValue) && Object.keys(RULES).some((p) => p.startsWith(`${path}.`));
+    cleaned[key] = isNested ? checkObject(fieldValue, `${path}.`, diagnostics) : fieldValue;
+  }
+
+  return cleaned;
+}
+
+/**
+ * Closest known option to a typo'd key, if any is close enough
+ */
+function suggest(key: string, prefix: string): string | undefined {
+  const candidates = Object.keys(RULES)
+    .filter((path) => path.startsWith(prefix) && !path.slice(prefix.length).includes('.'))
+    .map((path) => path.slice(prefix.length));
+
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = candidate.toLowerCase().startsWith(key.toLowerCase()) ? 1 : editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(3, Math.floor(key.length / 3)) ? best : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) return String(value);
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+function isProduction(): boolean {
+  return typeof process !== 'undefined' && process.env?.NODE_ENV === 'production';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
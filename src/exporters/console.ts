@@ -0,0 +1,219 @@
+/**
+ * Console Exporter
+ *
+ * Renders traces as indented trees during local development - no backend needed.
+ * Spans are buffered by traceId and printed when the root "agent" span from
+ * trace() arrives. Spans captured outside trace() are printed on their own.
+ *
+ * @example
+ * import { init } from '@lelemondev/sdk';
+ * import { ConsoleExporter } from '@lelemondev/sdk/exporters';
+ *
+ * init({ exporters: [new ConsoleExporter()] });
+ *
+ * // [Lelemon] Trace sales-agent 1840ms tokens=430 ✓
+ * // └─ agent sales-agent 1840ms tokens=120/310 ✓
+ * //    ├─ llm gpt-4o 920ms tokens=80/200 ✓
+ * //    │    input:  [{"role":"user","content":"Find me a flight"}]
+ * //    │    output: I'll search for flights...
+ * //    └─ tool search_flights 310ms ✓
+ */
+
+import type { CreateTraceRequest, SpanExporter } from '../core/types';
+import { getCaptureTime } from '../core/exporter';
+import { isRootSpan } from '../core/trace-buffer';
+import { extractUsage, extractOutputText } from '../core/usage';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+export interface ConsoleExporterOptions {
+  /** Max characters of input/output shown per span, 0 hides content (default: 120) */
+  maxContentLength?: number;
+  /** Max spans buffered while waiting for root spans; oldest traces print early (default: 1000) */
+  maxBufferedSpans?: number;
+  /** Output function (default: console.log) */
+  write?: (line: string) => void;
+}
+
+const DEFAULT_MAX_CONTENT_LENGTH = 120;
+const DEFAULT_MAX_BUFFERED_SPANS = 1000;
+const PREFIX = '[Lelemon]';
+
+interface SpanNode {
+  span: CreateTraceRequest;
+  children: SpanNode[];
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Exporter
+// ─────────────────────────────────────────────────────────────
+
+export class ConsoleExporter implements SpanExporter {
+  readonly name = 'console';
+  private readonly options: Required<ConsoleExporterOptions>;
+  private readonly traces = new Map<string, CreateTraceRequest[]>();
+  private bufferedSpans = 0;
+
+  constructor(options: ConsoleExporterOptions = {}) {
+    this.options = {
+      maxContentLength: options.maxContentLength ?? DEFAULT_MAX_CONTENT_LENGTH,
+      maxBufferedSpans: options.maxBufferedSpans ?? DEFAULT_MAX_BUFFERED_SPANS,
+      write: options.write ?? ((line) => console.log(line)),
+    };
+  }
+
+  export(batch: CreateTraceRequest[]): void {
+    for (const span of batch) {
+      if (!span.traceId) {
+        this.print([span], false);
+        continue;
+      }
+
+      const spans = this.traces.get(span.traceId) ?? [];
+      spans.push(span);
+      this.traces.set(span.traceId, spans);
+      this.bufferedSpans++;
+
+      if (isRootSpan(span)) {
+        this.printTrace(span.traceId, true);
+      }
+    }
+
+    // Traces whose root never arrives shouldn't hold memory forever
+    while (this.bufferedSpans > this.options.maxBufferedSpans) {
+      const oldest = this.traces.keys().next().value as string;
+      this.printTrace(oldest, false);
+    }
+  }
+
+  /**
+   * Print traces still waiting for their root span
+   */
+  forceFlush(): void {
+    for (const traceId of [...this.traces.keys()]) {
+      this.printTrace(traceId, false);
+    }
+  }
+
+  shutdown(): void {
+    this.forceFlush();
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Rendering
+  // ─────────────────────────────────────────────────────────────
+
+  private printTrace(traceId: string, complete: boolean): void {
+    const spans = this.traces.get(traceId);
+    if (!spans) return;
+
+    this.traces.delete(traceId);
+    this.bufferedSpans -= spans.length;
+    this.print(spans, complete);
+  }
+
+  private print(spans: CreateTraceRequest[], complete: boolean): void {
+    const roots = buildTree(spans);
+    const root = roots.find((node) => isRootSpan(node.span)) ?? roots[0];
+
+    const status = spans.some((span) => span.status === 'error') ? '✗' : '✓';
+    const tokens = roots.reduce((sum, node) => sum + node.inputTokens + node.outputTokens, 0);
+    const title = root.span.spanType === 'agent' || spans.length > 1 ? 'Trace' : 'Span';
+    const suffix = spans.some((span) => span.traceId) && !complete ? ' (incomplete)' : '';
+
+    const lines = [`${PREFIX} ${title} ${root.span.name ?? root.span.model} ${root.span.durationMs}ms tokens=${tokens} ${status}${suffix}`];
+    roots.forEach((node, index) => this.renderNode(node, '', index === roots.length - 1, lines));
+
+    this.options.write(lines.join('\n'));
+  }
+
+  private renderNode(node: SpanNode, indent: string, last: boolean, lines: string[]): void {
+    const { span } = node;
+    const name = span.name ?? span.model;
+    const model = span.spanType !== 'agent' && span.model !== name ? ` (${span.model})` : '';
+    const tokens = node.inputTokens || node.outputTokens ? ` tokens=${node.inputTokens}/${node.outputTokens}` : '';
+    const status = span.status === 'error' ? `✗ ${span.errorMessage ?? 'error'}` : '✓';
+
+    lines.push(`${indent}${last ? '└─' : '├─'} ${span.spanType ?? 'llm'} ${name}${model} ${span.durationMs}ms${tokens} ${status}`);
+
+    const childIndent = indent + (last ? '   ' : '│  ');
+    const contentIndent = childIndent + (node.children.length > 0 ? '│ ' : '  ');
+
+    if (this.options.maxContentLength > 0) {
+      const input = this.truncate(span.input);
+      const output = this.truncate(extractOutputText(span));
+      if (input) lines.push(`${contentIndent}input:  ${input}`);
+      if (output) lines.push(`${contentIndent}output: ${output}`);
+    }
+
+    node.children.forEach((child, index) => this.renderNode(child, childIndent, index === node.children.length - 1, lines));
+  }
+
+  private truncate(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '';
+
+    let text: string;
+    try {
+      text = typeof value === 'string' ? value : JSON.stringify(value);
+    } catch {
+      text = String(value);
+    }
+
+    text = text.replace(/\s+/g, ' ');
+    return text.length > this.options.maxContentLength
+      ? `${text.slice(0, this.options.maxContentLength)}…`
+      : text;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Link spans by parentSpanId; spans whose parent is missing become roots.
+ * Siblings are ordered by start time, token counts roll up to parents.
+ */
+function buildTree(spans: CreateTraceRequest[]): SpanNode[] {
+  const nodes = new Map<string, SpanNode>();
+  const all: SpanNode[] = spans.map((span) => {
+    const usage = extractUsage(span);
+    const node: SpanNode = {
+      span,
+      children: [],
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+    };
+    if (span.spanId) nodes.set(span.spanId, node);
+    return node;
+  });
+
+  const roots: SpanNode[] = [];
+  for (const node of all) {
+    const parent = node.span.parentSpanId ? nodes.get(node.span.parentSpanId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const startTime = (node: SpanNode) => (getCaptureTime(node.span) ?? 0) - node.span.durationMs;
+  const finalize = (list: SpanNode[]): void => {
+    list.sort((a, b) => startTime(a) - startTime(b));
+    for (const node of list) {
+      finalize(node.children);
+      for (const child of node.children) {
+        node.inputTokens += child.inputTokens;
+        node.outputTokens += child.outputTokens;
+      }
+    }
+  };
+  finalize(roots);
+
+  return roots;
+}
@@ -0,0 +1,198 @@
+/**
+ * File Exporter
+ *
+ * Appends spans to rotating JSONL files (Node.js only) for deployments that
+ * can't reach the Lelemon API, or that need a local audit record.
+ * Features:
+ * - One sanitized span per line, same schema as the ingest payload events
+ * - Rotation by file size and by age
+ * - Optional gzip of rotated files
+ *
+ * Files can be uploaded later by POSTing their lines as `{ events: [...] }`
+ * to `/api/v1/ingest`.
+ *
+ * @example
+ * import { init } from '@lelemondev/sdk';
+ * import { FileExporter } from '@lelemondev/sdk/exporters';
+ *
+ * init({
+ *   exporters: [new FileExporter({ directory: '/var/log/lelemon', compress: true })],
+ * });
+ */
+
+import type { CreateTraceRequest, SpanExporter } from '../core/types';
+import { warn } from '../core/logger';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+export interface FileExporterOptions {
+  /** Directory for the JSONL files (created if missing) */
+  directory: string;
+  /** File name prefix (default: 'lelemon') */
+  filePrefix?: string;
+  /** Rotate when the current file would exceed this size (default: 10 MB) */
+  maxFileBytes?: number;
+  /** Rotate when the current file is older than this, 0 disables (default: 1 hour) */
+  rotateIntervalMs?: number;
+  /** Gzip rotated files to `.jsonl.gz` (default: false) */
+  compress?: boolean;
+}
+
+const DEFAULT_FILE_PREFIX = 'lelemon';
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ROTATE_INTERVAL_MS = 60 * 60 * 1000;
+
+type NodeFs = typeof import('node:fs/promises');
+type NodePath = typeof import('node:path');
+type NodeZlib = typeof import('node:zlib');
+
+interface NodeModules {
+  fs: NodeFs;
+  path: NodePath;
+  zlib: NodeZlib;
+}
+
+interface ActiveFile {
+  file: string;
+  bytes: number;
+  openedAt: number;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Exporter
+// ─────────────────────────────────────────────────────────────
+
+export class FileExporter implements SpanExporter {
+  readonly name = 'file';
+  private readonly options: Required<FileExporterOptions>;
+  private readonly modules: Promise<NodeModules | null>;
+  private ops: Promise<void> = Promise.resolve();
+  private active: ActiveFile | null = null;
+  private seq = 0;
+
+  constructor(options: FileExporterOptions) {
+    this.options = {
+      directory: options.directory,
+      filePrefix: options.filePrefix ?? DEFAULT_FILE_PREFIX,
+      maxFileBytes: options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES,
+      rotateIntervalMs: options.rotateIntervalMs ?? DEFAULT_ROTATE_INTERVAL_MS,
+      compress: options.compress ?? false,
+    };
+    this.modules = loadNodeModules();
+  }
+
+  export(batch: CreateTraceRequest[]): Promise<void> {
+    if (batch.length === 0) return Promise.resolve();
+
+    const data = batch.map((trace) => JSON.stringify(trace) + '\n').join('');
+    const bytes = byteLength(data);
+
+    return this.run(async (modules) => {
+      if (this.active && this.shouldRotate(this.active, bytes)) {
+        await this.closeActive(modules);
+      }
+
+      if (!this.active) {
+        this.active = await this.open(modules);
+      }
+
+      await modules.fs.appendFile(this.active.file, data);
+      this.active.bytes += bytes;
+    });
+  }
+
+  /**
+   * Wait until every exported span is on disk
+   */
+  forceFlush(): Promise<void> {
+    return this.run(async () => {});
+  }
+
+  /**
+   * Close (and compress) the current file
+   */
+  shutdown(): Promise<void> {
+    return this.run((modules) => this.closeActive(modules));
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private shouldRotate(active: ActiveFile, bytes: number): boolean {
+    if (active.bytes > 0 && active.bytes + bytes > this.options.maxFileBytes) return true;
+    return this.options.rotateIntervalMs > 0 && Date.now() - active.openedAt >= this.options.rotateIntervalMs;
+  }
+
+  private async open({ fs, path }: NodeModules): Promise<ActiveFile> {
+    await fs.mkdir(this.options.directory, { recursive: true });
+
+    // Sortable UTC timestamp, pid and sequence keep names unique across processes
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+    const seq = String(this.seq++).padStart(4, '0');
+    const name = `${this.options.filePrefix}-${timestamp}-${getPid()}-${seq}.jsonl`;
+
+    return { file: path.join(this.options.directory, name), bytes: 0, openedAt: Date.now() };
+  }
+
+  private async closeActive({ fs, zlib }: NodeModules): Promise<void> {
+    const active = this.active;
+    this.active = null;
+    if (!active || !this.options.compress) return;
+
+    try {
+      const content = await fs.readFile(active.file);
+      const compressed = await new Promise<Uint8Array>((resolve, reject) => {
+        zlib.gzip(content, (err, result) => (err ? reject(err) : resolve(result)));
+      });
+      await fs.writeFile(`${active.file}.gz`, compressed);
+      await fs.rm(active.file, { force: true });
+    } catch (err) {
+      warn(`FileExporter: failed to compress ${active.file}, keeping it uncompressed`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  /**
+   * Serialize file operations so writes and rotations never interleave.
+   * The returned promise rejects on failure; later operations still run.
+   */
+  private run(op: (modules: NodeModules) => Promise<void>): Promise<void> {
+    const result = this.ops.then(async () => {
+      const modules = await this.modules;
+      if (!modules) {
+        throw new Error('FileExporter requires a Node.js file system');
+      }
+      await op(modules);
+    });
+
+    this.ops = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+async function loadNodeModules(): Promise<NodeModules | null> {
+  try {
+    const [fs, path, zlib] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+      import('node:zlib'),
+    ]);
+    return { fs, path, zlib };
+  } catch {
+    return null;
+  }
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function getPid(): number {
+  return typeof process !== 'undefined' && typeof process.pid === 'number' ? process.pid : 0;
+}
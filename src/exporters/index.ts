@@ -0,0 +1,22 @@
+/**
+ * Span Exporters
+ *
+ * Ready-made SpanExporters for `init({ exporters })`.
+ *
+ * @example
+ * import { init } from '@lelemondev/sdk';
+ * import { OTLPExporter } from '@lelemondev/sdk/exporters';
+ *
+ * init({ exporters: [new OTLPExporter()] });
+ */
+
+export { ConsoleExporter } from './console';
+export type { ConsoleExporterOptions } from './console';
+
+export { FileExporter } from './file';
+export type { FileExporterOptions } from './file';
+
+export { OTLPExporter, toOTLPRequest, toOTLPSpan } from './otlp';
+export type { OTLPExporterOptions, OTLPSpan, OTLPTraceRequest } from './otlp';
+
+export type { SpanExporter, CreateTraceRequest } from '../core/types';
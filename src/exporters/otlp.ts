@@ -0,0 +1,324 @@
+/**
+ * OTLP/HTTP Exporter
+ *
+ * Converts captured spans into OpenTelemetry spans using the GenAI semantic
+ * conventions (`gen_ai.*`) and sends them to an OTLP/HTTP collector as JSON.
+ * Lelemon-instrumented calls then show up in Jaeger, Tempo, etc. next to the
+ * rest of your traces.
+ *
+ * @example
+ * import { init } from '@lelemondev/sdk';
+ * import { OTLPExporter } from '@lelemondev/sdk/exporters';
+ *
+ * init({
+ *   service: { name: 'chat-api' },
+ *   exporters: [new OTLPExporter({ url: 'http://otel-collector:4318/v1/traces' })],
+ * });
+ */
+
+import type { CreateTraceRequest, ProviderName, SDKTelemetry, SpanExporter, SpanType } from '../core/types';
+import { getTelemetry } from '../core/config';
+import { getCaptureTime } from '../core/exporter';
+import { extractUsage, extractFinishReason } from '../core/usage';
+
+// ─────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────
+
+export interface OTLPExporterOptions {
+  /** Collector traces endpoint (default: http://localhost:4318/v1/traces) */
+  url?: string;
+  /** Extra request headers (e.g. collector auth) */
+  headers?: Record<string, string>;
+  /** Request timeout in ms (default: 10000) */
+  timeoutMs?: number;
+  /** Extra resource attributes, merged over the SDK telemetry from init() */
+  resourceAttributes?: Record<string, string | number | boolean>;
+  /** Include prompt and completion content as gen_ai.input/output.messages (default: false) */
+  includeContent?: boolean;
+}
+
+const DEFAULT_URL = 'http://localhost:4318/v1/traces';
+const DEFAULT_TIMEOUT_MS = 10000;
+const SCOPE_NAME = '@lelemondev/sdk';
+
+// ─────────────────────────────────────────────────────────────
+// OTLP JSON Types
+// ─────────────────────────────────────────────────────────────
+
+type AnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean }
+  | { arrayValue: { values: AnyValue[] } };
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+export interface OTLPSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: KeyValue[];
+  status: { code: number; message?: string };
+}
+
+export interface OTLPTraceRequest {
+  resourceSpans: Array<{
+    resource: { attributes: KeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string; version?: string };
+      spans: OTLPSpan[];
+    }>;
+  }>;
+}
+
+// SpanKind and StatusCode from the OTLP protocol
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_ERROR = 2;
+
+/** gen_ai.operation.name per span type */
+const OPERATION_NAMES: Partial<Record<SpanType, string>> = {
+  llm: 'chat',
+  embedding: 'embeddings',
+  agent: 'invoke_agent',
+  tool: 'execute_tool',
+};
+
+/** gen_ai.provider.name per provider */
+const PROVIDER_NAMES: Partial<Record<ProviderName, string>> = {
+  openai: 'openai',
+  anthropic: 'anthropic',
+  gemini: 'gcp.gemini',
+  bedrock: 'aws.bedrock',
+  openrouter: 'openrouter',
+};
+
+// ─────────────────────────────────────────────────────────────
+// Exporter
+// ─────────────────────────────────────────────────────────────
+
+export class OTLPExporter implements SpanExporter {
+  readonly name = 'otlp';
+  private readonly options: OTLPExporterOptions;
+
+  constructor(options: OTLPExporterOptions = {}) {
+    this.options = options;
+  }
+
+  async export(batch: CreateTraceRequest[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    const body = JSON.stringify(toOTLPRequest(batch, {
+      telemetry: getTelemetry(),
+      resourceAttributes: this.options.resourceAttributes,
+      includeContent: this.options.includeContent ?? false,
+    }));
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(this.options.url ?? DEFAULT_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.options.headers,
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new Error(`OTLP export failed: HTTP ${response.status}: ${errorText}`);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    // Stateless - nothing buffered here
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Conversion
+// ─────────────────────────────────────────────────────────────
+
+interface ConversionOptions {
+  telemetry: SDKTelemetry | null;
+  resourceAttributes?: Record<string, string | number | boolean>;
+  includeContent: boolean;
+}
+
+/**
+ * Convert captured spans into an OTLP/HTTP JSON export request
+ */
+export function toOTLPRequest(batch: CreateTraceRequest[], options: ConversionOptions): OTLPTraceRequest {
+  const resource: Record<string, string | number | boolean> = {
+    'service.name': 'unknown_service',
+    ...filterDefined(options.telemetry ?? {}),
+    ...options.resourceAttributes,
+  };
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toAttributes(resource) },
+        scopeSpans: [
+          {
+            scope: { name: SCOPE_NAME, version: options.telemetry?.['telemetry.sdk.version'] },
+            spans: batch.map((trace) => toOTLPSpan(trace, options.includeContent)),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Convert one captured span into an OTLP span with gen_ai.* attributes
+ */
+export function toOTLPSpan(trace: CreateTraceRequest, includeContent = false): OTLPSpan {
+  const spanType = trace.spanType ?? 'llm';
+  const operation = OPERATION_NAMES[spanType];
+  const spanName = trace.name ?? trace.model;
+
+  const endMs = getCaptureTime(trace) ?? Date.now();
+  const startMs = endMs - trace.durationMs;
+
+  // Spans outside trace() get their own trace, derived from the span ID
+  const spanSeed = trace.spanId ?? `${trace.model}-${endMs}-${Math.random()}`;
+  const traceId = toHexId(trace.traceId ?? spanSeed, 32);
+
+  const attributes: Record<string, unknown> = {
+    'gen_ai.operation.name': operation,
+    'lelemon.span_type': spanType,
+    'lelemon.streaming': trace.streaming,
+    'lelemon.first_token_ms': trace.firstTokenMs,
+    'session.id': trace.sessionId,
+    'user.id': trace.userId,
+    'lelemon.tags': trace.tags,
+  };
+
+  if (spanType === 'llm' || spanType === 'embedding') {
+    const usage = extractUsage(trace);
+    const finishReason = extractFinishReason(trace);
+    Object.assign(attributes, {
+      'gen_ai.provider.name': PROVIDER_NAMES[trace.provider] ?? trace.provider,
+      'gen_ai.system': PROVIDER_NAMES[trace.provider] ?? trace.provider,
+      'gen_ai.request.model': trace.model,
+      'gen_ai.usage.input_tokens': usage?.inputTokens,
+      'gen_ai.usage.output_tokens': usage?.outputTokens,
+      'gen_ai.response.finish_reasons': finishReason ? [finishReason] : undefined,
+    });
+  } else if (spanType === 'agent') {
+    attributes['gen_ai.agent.name'] = spanName;
+  } else if (spanType === 'tool') {
+    attributes['gen_ai.tool.name'] = spanName;
+    attributes['gen_ai.tool.call.id'] = trace.toolCallId;
+  }
+
+  if (includeContent) {
+    attributes['gen_ai.input.messages'] = stringify(trace.input);
+    attributes['gen_ai.output.messages'] = stringify(trace.output ?? trace.rawResponse);
+  }
+
+  return {
+    traceId,
+    spanId: toHexId(spanSeed, 16),
+    parentSpanId: trace.parentSpanId ? toHexId(trace.parentSpanId, 16) : undefined,
+    name: operation ? `${operation} ${spanName}` : spanName,
+    kind: spanType === 'llm' || spanType === 'embedding' ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(startMs),
+    endTimeUnixNano: toUnixNano(endMs),
+    attributes: toAttributes(attributes),
+    status: trace.status === 'error'
+      ? { code: STATUS_CODE_ERROR, message: trace.errorMessage }
+      : { code: STATUS_CODE_UNSET },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Convert an SDK ID into an OTLP hex ID of the given length.
+ * UUIDs map directly (dashes stripped); other formats are hashed.
+ */
+function toHexId(id: string, length: 16 | 32): string {
+  const stripped = id.replace(/-/g, '').toLowerCase();
+  if (/^[0-9a-f]+$/.test(stripped) && stripped.length >= length) {
+    return stripped.slice(0, length);
+  }
+
+  // FNV-1a, re-seeded per 8-char chunk until we have enough hex
+  let hex = '';
+  let seed = 0x811c9dc5;
+  while (hex.length < length) {
+    let hash = seed;
+    for (let i = 0; i < id.length; i++) {
+      hash ^= id.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    hex += hash.toString(16).padStart(8, '0');
+    seed = hash ^ hex.length;
+  }
+  return hex.slice(0, length);
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function toAttributes(values: Record<string, unknown>): KeyValue[] {
+  const attributes: KeyValue[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const anyValue = toAnyValue(value);
+    if (anyValue) attributes.push({ key, value: anyValue });
+  }
+  return attributes;
+}
+
+function toAnyValue(value: unknown): AnyValue | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    const values = value.map(toAnyValue).filter((v): v is AnyValue => v !== null);
+    return { arrayValue: { values } };
+  }
+  return { stringValue: stringify(value) };
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? '';
+  } catch {
+    return String(value);
+  }
+}
+
+function filterDefined(values: object): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value === 'string') result[key] = value;
+  }
+  return result;
+}
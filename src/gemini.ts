@@ -16,7 +16,8 @@
  */
 
 // Re-export core
-export { init, flush, isEnabled } from './core/config';
+export { init, flush, shutdown, isEnabled } from './core/config';
+export { registerShutdownHooks } from './core/lifecycle';
 export { trace, span, getTraceContext } from './core/context';
 export { captureSpan } from './core/capture';
 
@@ -32,6 +33,7 @@ export type { TraceContext, TraceOptions, SpanOptions } from './core/context';
 // Provider-specific observe
 import * as gemini from './providers/gemini';
 import { setGlobalContext } from './core/capture';
+import { splitObserveOptions, bindToScope } from './core/scope';
 import { getConfig } from './core/config';
 import type { ObserveOptions } from './core/types';
 import { clientWrapped, warn, debug } from './core/logger';
@@ -40,8 +42,9 @@ import { clientWrapped, warn, debug } from './core/logger';
  * Wrap a Gemini model with automatic tracing
  */
 export function observe<T>(client: T, options?: ObserveOptions): T {
+  const { context, scope } = splitObserveOptions(options);
   if (options) {
-    setGlobalContext(options);
+    setGlobalContext(context);
   }
 
   const config = getConfig();
@@ -56,5 +59,5 @@ export function observe<T>(client: T, options?: ObserveOptions): T {
   }
 
   clientWrapped('gemini');
-  return gemini.wrap(client) as T;
+  return bindToScope(gemini.wrap(client) as T, scope);
 }
@@ -34,7 +34,8 @@
 // ─────────────────────────────────────────────────────────────
 
 // Configuration
-export { init, flush, isEnabled } from './core/config';
+export { init, updateConfig, flush, shutdown, isEnabled, getStats } from './core/config';
+export { registerShutdownHooks } from './core/lifecycle';
 
 // Trace hierarchy
 export { trace, span, getTraceContext } from './core/context';
@@ -45,18 +46,47 @@ export { captureSpan } from './core/capture';
 // Generic observe (auto-detects provider)
 export { observe, createObserve } from './observe';
 
+// Independent SDK instances
+export { Lelemon } from './lelemon';
+
+// Config validation
+export { validateConfig, LelemonConfigError } from './core/validate';
+
 // ─────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────
 
 export type {
   LelemonConfig,
+  RuntimeConfig,
+  ConfigDiagnostic,
   ServiceConfig,
+  RetryConfig,
+  SpoolConfig,
+  QueueOverflowPolicy,
+  DeliveryMode,
+  CircuitBreakerConfig,
+  CircuitState,
+  SamplingConfig,
+  SamplingContext,
+  TailSamplingConfig,
+  FetchFunction,
+  HeadersConfig,
+  LelemonHooks,
+  BatchSentEvent,
+  ExportErrorEvent,
+  CaptureContent,
+  CompressionEncoding,
+  ShutdownOptions,
+  ShutdownHooksOptions,
   SDKTelemetry,
   ObserveOptions,
   ProviderName,
   SpanType,
   CaptureSpanOptions,
+  CreateTraceRequest,
+  SpanExporter,
 } from './core/types';
 
 export type { TraceContext, TraceOptions, SpanOptions } from './core/context';
+export type { TransportStats } from './core/transport';
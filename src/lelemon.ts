@@ -0,0 +1,38 @@
+/**
+ * Lelemon Class
+ *
+ * Instance-based SDK setup for processes that need more than one: two
+ * libraries, or tenants with different API keys. Each instance has its own
+ * transport, redaction, sampling and observe() context.
+ *
+ * @example
+ * ```typescript
+ * import { Lelemon } from '@lelemondev/sdk';
+ *
+ * const tenantA = new Lelemon({ apiKey: process.env.TENANT_A_KEY });
+ * const openai = tenantA.observe(new OpenAI());
+ *
+ * await tenantA.trace('support-agent', async () => {
+ *   await openai.chat.completions.create({...});
+ * });
+ * await tenantA.flush();
+ * ```
+ */
+
+import { LelemonClient, bindToClient } from './core/client';
+import type { ObserveOptions } from './core/types';
+import { observe } from './observe';
+
+// ─────────────────────────────────────────────────────────────
+// Lelemon Class
+// ─────────────────────────────────────────────────────────────
+
+export class Lelemon extends LelemonClient {
+  /**
+   * Wrap an LLM client; its calls are traced by this instance
+   * Options set the context for every span of this instance, like observe()
+   */
+  observe<T>(client: T, options?: ObserveOptions): T {
+    return bindToClient(this.run(() => observe(client, options)), this);
+  }
+}
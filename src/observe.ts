@@ -10,6 +10,7 @@ import * as bedrock from './providers/bedrock';
 import * as gemini from './providers/gemini';
 import * as openrouter from './providers/openrouter';
 import { setGlobalContext } from './core/capture';
+import { splitObserveOptions, bindToScope } from './core/scope';
 import { getConfig } from './core/config';
 import type { ObserveOptions } from './core/types';
 import { clientWrapped, warn, debug } from './core/logger';
@@ -35,9 +36,10 @@ import { clientWrapped, warn, debug } from './core/logger';
  * const response = await openai.chat.completions.create({...});
  */
 export function observe<T>(client: T, options?: ObserveOptions): T {
-  // Set global context if provided
+  // Set global context if provided; projectKey and captureContent stay with this client
+  const { context, scope } = splitObserveOptions(options);
   if (options) {
-    setGlobalContext(options);
+    setGlobalContext(context);
   }
 
   // Check if disabled
@@ -51,27 +53,27 @@ export function observe<T>(client: T, options?: ObserveOptions): T {
   // Note: OpenRouter must be checked BEFORE OpenAI because it uses the OpenAI SDK
   if (openrouter.canHandle(client)) {
     clientWrapped('openrouter');
-    return openrouter.wrap(client) as T;
+    return bindToScope(openrouter.wrap(client) as T, scope);
   }
 
   if (openai.canHandle(client)) {
     clientWrapped('openai');
-    return wrapOpenAI(client) as T;
+    return bindToScope(wrapOpenAI(client) as T, scope);
   }
 
   if (anthropic.canHandle(client)) {
     clientWrapped('anthropic');
-    return wrapAnthropic(client) as T;
+    return bindToScope(wrapAnthropic(client) as T, scope);
   }
 
   if (bedrock.canHandle(client)) {
     clientWrapped('bedrock');
-    return bedrock.wrap(client) as T;
+    return bindToScope(bedrock.wrap(client) as T, scope);
   }
 
   if (gemini.canHandle(client)) {
     clientWrapped('gemini');
-    return gemini.wrap(client) as T;
+    return bindToScope(gemini.wrap(client) as T, scope);
   }
 
   // Unknown client type
@@ -23,7 +23,8 @@
  */
 
 // Re-export core
-export { init, flush, isEnabled } from './core/config';
+export { init, flush, shutdown, isEnabled } from './core/config';
+export { registerShutdownHooks } from './core/lifecycle';
 export { trace, span, getTraceContext } from './core/context';
 export { captureSpan } from './core/capture';
 
@@ -39,6 +40,7 @@ export type { TraceContext, TraceOptions, SpanOptions } from './core/context';
 // Provider-specific observe
 import * as openrouter from './providers/openrouter';
 import { setGlobalContext } from './core/capture';
+import { splitObserveOptions, bindToScope } from './core/scope';
 import { getConfig } from './core/config';
 import type { ObserveOptions } from './core/types';
 import { clientWrapped, warn, debug } from './core/logger';
@@ -47,8 +49,9 @@ import { clientWrapped, warn, debug } from './core/logger';
  * Wrap an OpenRouter client (OpenAI SDK with OpenRouter baseURL) with automatic tracing
  */
 export function observe<T>(client: T, options?: ObserveOptions): T {
+  const { context, scope } = splitObserveOptions(options);
   if (options) {
-    setGlobalContext(options);
+    setGlobalContext(context);
   }
 
   const config = getConfig();
@@ -63,5 +66,5 @@ export function observe<T>(client: T, options?: ObserveOptions): T {
   }
 
   clientWrapped('openrouter');
-  return openrouter.wrap(client) as T;
+  return bindToScope(openrouter.wrap(client) as T, scope);
 }
@@ -0,0 +1,24 @@
+import { init } from '../../src/core/config';
+import { captureTrace } from '../../src/core/capture';
+import type { CaptureTraceParams } from '../../src/core/capture';
+import type { CreateTraceRequest, LelemonConfig } from '../../src/core/types';
+
+/** Capture an OpenAI call through the top-level API, as a provider wrapper would */
+export function captureLLMCall(overrides: Partial<CaptureTraceParams> = {}): void {
+  captureTrace({
+    provider: 'openai',
+    model: 'gpt-4o',
+    input: [{ role: 'user', content: 'Hello' }],
+    durationMs: 100,
+    status: 'success',
+    streaming: false,
+    ...overrides,
+  });
+}
+
+/** init() with an exporter that collects every exported span (no API key, so nothing is sent) */
+export function initWithExporter(config: LelemonConfig = {}): CreateTraceRequest[] {
+  const exported: CreateTraceRequest[] = [];
+  init({ ...config, exporters: [{ export: (batch) => void exported.push(...batch), shutdown: () => {} }] });
+  return exported;
+}
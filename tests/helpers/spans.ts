@@ -0,0 +1,14 @@
+import type { CreateTraceRequest } from '../../src/core/types';
+
+/** A finished OpenAI span, as the pipeline and transport receive it */
+export function createTrace(overrides: Partial<CreateTraceRequest> = {}): CreateTraceRequest {
+  return {
+    provider: 'openai',
+    model: 'gpt-4o',
+    input: [{ role: 'user', content: 'Hello' }],
+    durationMs: 100,
+    status: 'success',
+    streaming: false,
+    ...overrides,
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { flush } from '../../src/core/config';
+import { captureError, captureSpan, setGlobalContext } from '../../src/core/capture';
+import { trace, span } from '../../src/core/context';
+import { stripContent } from '../../src/core/content';
+import { extractUsage, extractFinishReason } from '../../src/core/usage';
+import { observe } from '../../src/observe';
+import { createChatCompletionResponse, createToolCallResponse } from '../fixtures/openai';
+import { createToolUseResponse, createMultiBlockResponse } from '../fixtures/anthropic';
+import { createConverseToolUseResponse } from '../fixtures/bedrock';
+import { createThinkingResult, createFunctionCallResult } from '../fixtures/gemini';
+import { createMockOpenAIClient } from '../helpers/mock-client';
+import { captureLLMCall, initWithExporter } from '../helpers/capture';
+
+const PROMPT = [{ role: 'user', content: 'My SSN is 123-45-6789' }];
+
+describe('captureContent', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setGlobalContext({});
+    vi.restoreAllMocks();
+  });
+
+  describe('stripContent', () => {
+    it.each([
+      ['OpenAI chat', createChatCompletionResponse({ content: 'SECRET reply' }), 'stop'],
+      ['OpenAI tool call', createToolCallResponse(), 'tool_calls'],
+      ['Anthropic tool use', createToolUseResponse({ toolInput: { location: 'SECRET' } }), 'tool_use'],
+      ['Anthropic text blocks', createMultiBlockResponse(), 'end_turn'],
+      ['Bedrock Converse', createConverseToolUseResponse(), 'tool_use'],
+      ['Gemini text', { candidates: createThinkingResult({ text: 'SECRET' }).response.candidates, usageMetadata: createThinkingResult().response.usageMetadata }, 'STOP'],
+      ['Gemini function call', { ...createFunctionCallResult().response, text: undefined }, 'STOP'],
+    ])('should remove text but keep usage and finish reason (%s)', (_name, raw, finishReason) => {
+      const stripped = stripContent(raw);
+      const json = JSON.stringify(stripped);
+
+      for (const secret of ['SECRET', 'San Francisco', 'analysis', 'search for that', 'weather today', 'How can I help']) {
+        expect(json).not.toContain(secret);
+      }
+      const span = { provider: 'openai', model: 'm', input: null, durationMs: 0, status: 'success', streaming: false } as const;
+      expect(extractUsage({ ...span, rawResponse: stripped })).toEqual(extractUsage({ ...span, rawResponse: raw }));
+      expect(extractFinishReason({ ...span, rawResponse: stripped })).toBe(finishReason);
+    });
+
+    it('should keep tool names', () => {
+      const stripped = stripContent(createToolCallResponse()) as ReturnType<typeof createToolCallResponse>;
+
+      expect(stripped.choices[0].message.tool_calls[0]).toEqual({
+        id: 'call_abc123',
+        type: 'function',
+        function: { name: 'get_weather', arguments: null },
+      });
+    });
+  });
+
+  it('should drop input and output content globally with captureContent: false', async () => {
+    const exported = initWithExporter({ captureContent: false });
+
+    captureLLMCall({ input: PROMPT, rawResponse: createChatCompletionResponse() });
+    captureError({ provider: 'openai', model: 'gpt-4o-mini', input: 'secret prompt', error: new Error('boom'), durationMs: 5, streaming: false });
+    captureSpan({ type: 'tool', name: 'lookup', input: { id: 1 }, output: { row: 'secret' }, durationMs: 1 });
+    await flush();
+
+    expect(exported.map((s) => [s.input, s.output])).toEqual([[undefined, undefined], [undefined, undefined], [undefined, undefined]]);
+    expect(exported[0].rawResponse).toMatchObject({
+      model: 'gpt-4o-mini',
+      choices: [{ message: { role: 'assistant', content: null }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 15 },
+    });
+    expect(exported[1].errorMessage).toBe('boom');
+  });
+
+  it('should keep only the allowed side', async () => {
+    const exported = initWithExporter({ captureContent: 'input' });
+    captureLLMCall({ input: PROMPT, rawResponse: createChatCompletionResponse() });
+    await flush();
+
+    expect(exported[0].input).toEqual([{ role: 'user', content: 'My SSN is 123-45-6789' }]);
+    expect(JSON.stringify(exported[0].rawResponse)).not.toContain('How can I help');
+
+    const outputOnly = initWithExporter({ captureContent: 'output' });
+    captureLLMCall({ input: PROMPT, rawResponse: createChatCompletionResponse() });
+    await flush();
+
+    expect(outputOnly[0].input).toBeUndefined();
+    expect(JSON.stringify(outputOnly[0].rawResponse)).toContain('How can I help');
+  });
+
+  it('should apply per trace, including the root span, without nested traces re-enabling it', async () => {
+    const exported = initWithExporter();
+
+    await trace({ name: 'private', input: 'secret question', captureContent: false }, async () => {
+      captureLLMCall({ input: PROMPT, rawResponse: createChatCompletionResponse() });
+      await trace({ name: 'nested', captureContent: 'input' }, async () => {
+        span({ type: 'tool', name: 'lookup', input: { id: 1 }, output: 'secret' });
+      });
+      return 'secret answer';
+    });
+    captureLLMCall({ input: PROMPT, rawResponse: createChatCompletionResponse() });
+    await flush();
+
+    expect(exported.map((s) => [s.name ?? s.spanType ?? 'llm', s.input, s.output])).toEqual([
+      ['llm', undefined, undefined],
+      ['lookup', undefined, undefined],
+      ['nested', undefined, undefined],
+      ['private', undefined, undefined],
+      ['llm', [{ role: 'user', content: 'My SSN is 123-45-6789' }], undefined],
+    ]);
+    expect(JSON.stringify(exported[4].rawResponse)).toContain('How can I help');
+  });
+
+  it('should apply observe() options to the wrapped client\'s calls', async () => {
+    const exported = initWithExporter();
+    const client = createMockOpenAIClient();
+    client.chat.completions.create.mockResolvedValue(createChatCompletionResponse());
+
+    const openai = observe(client, { captureContent: false });
+    await openai.chat.completions.create({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'secret' }] });
+    await flush();
+
+    expect(exported[0].input).toBeUndefined();
+    expect(extractUsage(exported[0])).toMatchObject({ inputTokens: 10, outputTokens: 15 });
+  });
+
+  it('should keep each observed client on its own captureContent', async () => {
+    const exported = initWithExporter();
+    const regulatedClient = createMockOpenAIClient();
+    const otherClient = createMockOpenAIClient();
+    regulatedClient.chat.completions.create.mockResolvedValue(createChatCompletionResponse());
+    otherClient.chat.completions.create.mockResolvedValue(createChatCompletionResponse());
+
+    const regulated = observe(regulatedClient, { captureContent: false });
+    const other = observe(otherClient, { sessionId: 'other-session' });
+    await regulated.chat.completions.create({ model: 'gpt-4o-mini', messages: PROMPT });
+    await other.chat.completions.create({ model: 'gpt-4o-mini', messages: PROMPT });
+    await flush();
+
+    expect(exported.map((s) => s.input)).toEqual([undefined, PROMPT]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Lelemon } from '../../src/lelemon';
+import { init, flush, shutdown } from '../../src/core/config';
+import { captureSpan } from '../../src/core/capture';
+import { trace, span } from '../../src/core/context';
+import type { CreateTraceRequest } from '../../src/core/types';
+import { createMockOpenAIClient } from '../helpers/mock-client';
+import { initWithExporter } from '../helpers/capture';
+import { createChatCompletionResponse, createStreamingResponse } from '../fixtures/openai';
+
+interface SentBatch {
+  apiKey: string;
+  events: CreateTraceRequest[];
+}
+
+function sentBatches(mockFetch: ReturnType<typeof vi.fn>): SentBatch[] {
+  return mockFetch.mock.calls.map(([, request]) => ({
+    apiKey: (request.headers as Record<string, string>).Authorization.replace('Bearer ', ''),
+    events: JSON.parse(request.body as string).events,
+  }));
+}
+
+function createClient(apiKey: string, options: ConstructorParameters<typeof Lelemon>[0] = {}): Lelemon {
+  return new Lelemon({ apiKey, endpoint: 'https://api.test', flushIntervalMs: 60_000, compression: false, ...options });
+}
+
+describe('Lelemon instances', () => {
+  const mockFetch = vi.fn();
+  const clients: Lelemon[] = [];
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    init({ disabled: true });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.shutdown()));
+    await shutdown();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function track(client: Lelemon): Lelemon {
+    clients.push(client);
+    return client;
+  }
+
+  it('should send spans with each instance\'s own transport', async () => {
+    const tenantA = track(createClient('le_tenant_a'));
+    const tenantB = track(createClient('le_tenant_b'));
+
+    tenantA.captureSpan({ type: 'tool', name: 'lookup', durationMs: 1 });
+    await tenantB.trace('agent', async () => {
+      span({ type: 'retrieval', name: 'search' });
+    });
+    await tenantA.flush();
+    await tenantB.flush();
+
+    expect(sentBatches(mockFetch).map(({ apiKey, events }) => [apiKey, events.map((e) => e.name)])).toEqual([
+      ['le_tenant_a', ['lookup']],
+      ['le_tenant_b', ['search', 'agent']],
+    ]);
+  });
+
+  it('should leave the default client alone', async () => {
+    const exported = initWithExporter();
+    const tenant = track(createClient('le_tenant'));
+
+    captureSpan({ type: 'tool', name: 'default-span', durationMs: 1 });
+    tenant.captureSpan({ type: 'tool', name: 'tenant-span', durationMs: 1 });
+    await flush();
+    await tenant.flush();
+
+    expect(exported.map((s) => s.name)).toEqual(['default-span']);
+    expect(sentBatches(mockFetch).flatMap((batch) => batch.events.map((e) => e.name))).toEqual(['tenant-span']);
+  });
+
+  it('should apply each instance\'s redaction and observe() context', async () => {
+    const strict = track(createClient('le_strict', { redaction: { emails: true } }));
+    const open = track(createClient('le_open'));
+
+    const [strictClient, openClient] = [createMockOpenAIClient(), createMockOpenAIClient()];
+    strictClient.chat.completions.create.mockResolvedValue(createChatCompletionResponse());
+    openClient.chat.completions.create.mockResolvedValue(createChatCompletionResponse());
+    const strictOpenAI = strict.observe(strictClient, { userId: 'strict-user' });
+    const openOpenAI = open.observe(openClient, { userId: 'open-user' });
+
+    const request = { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'mail ana@example.com' }] };
+    await strictOpenAI.chat.completions.create(request);
+    await openOpenAI.chat.completions.create(request);
+    await strict.flush();
+    await open.flush();
+
+    const [strictBatch, openBatch] = sentBatches(mockFetch);
+    expect(strictBatch.events[0]).toMatchObject({ userId: 'strict-user', input: [{ content: 'mail [EMAIL]' }] });
+    expect(openBatch.events[0]).toMatchObject({ userId: 'open-user', input: [{ content: 'mail ana@example.com' }] });
+  });
+
+  it('should attribute streams consumed outside the instance to it', async () => {
+    const tenant = track(createClient('le_tenant'));
+    const client = createMockOpenAIClient();
+    client.chat.completions.create.mockResolvedValue(createStreamingResponse('Hi there'));
+    const openai = tenant.observe(client);
+
+    const stream = await openai.chat.completions.create({ model: 'gpt-4o-mini', messages: [], stream: true });
+    // Consumed inside a default-client trace, as app code might
+    await trace('default-agent', async () => {
+      for await (const _chunk of stream as AsyncIterable<unknown>) {
+        // drain
+      }
+    });
+    await tenant.flush();
+
+    expect(sentBatches(mockFetch).map(({ apiKey, events }) => [apiKey, events.map((e) => e.streaming)])).toEqual([
+      ['le_tenant', [true]],
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConsoleExporter } from '../../src/exporters/console';
+import type { CreateTraceRequest } from '../../src/core/types';
+import { createChatCompletionResponse } from '../fixtures/openai';
+
+function createSpan(overrides: Partial<CreateTraceRequest> = {}): CreateTraceRequest {
+  return {
+    provider: 'openai',
+    model: 'gpt-4o',
+    input: [{ role: 'user', content: 'Hello' }],
+    rawResponse: createChatCompletionResponse(),
+    durationMs: 250,
+    status: 'success',
+    streaming: false,
+    traceId: 'trace-1',
+    spanId: 'llm-1',
+    parentSpanId: 'root',
+    ...overrides,
+  };
+}
+
+function createRoot(overrides: Partial<CreateTraceRequest> = {}): CreateTraceRequest {
+  return createSpan({
+    spanType: 'agent',
+    provider: 'agent',
+    name: 'sales-agent',
+    model: 'sales-agent',
+    input: { query: 'Find a flight' },
+    rawResponse: undefined,
+    output: 'Booked',
+    durationMs: 900,
+    spanId: 'root',
+    parentSpanId: undefined,
+    ...overrides,
+  });
+}
+
+describe('ConsoleExporter', () => {
+  let output: string[];
+  let exporter: ConsoleExporter;
+
+  beforeEach(() => {
+    output = [];
+    exporter = new ConsoleExporter({ write: (line) => output.push(line) });
+  });
+
+  it('should buffer spans until the root agent span arrives', () => {
+    exporter.export([createSpan()]);
+    expect(output).toHaveLength(0);
+
+    exporter.export([createRoot()]);
+    expect(output).toHaveLength(1);
+  });
+
+  it('should render an indented tree with tokens and content', () => {
+    exporter.export([
+      createSpan(),
+      createSpan({ spanType: 'tool', provider: 'unknown', name: 'search_flights', model: 'search_flights', spanId: 'tool-1', rawResponse: undefined, output: { flights: 3 } }),
+      createRoot(),
+    ]);
+
+    expect(output[0].split('\n')).toEqual([
+      '[Lelemon] Trace sales-agent 900ms tokens=25 ✓',
+      '└─ agent sales-agent 900ms tokens=10/15 ✓',
+      '   │ input:  {"query":"Find a flight"}',
+      '   │ output: Booked',
+      '   ├─ llm gpt-4o 250ms tokens=10/15 ✓',
+      '   │    input:  [{"role":"user","content":"Hello"}]',
+      '   │    output: Hello! How can I help you today?',
+      '   └─ tool search_flights 250ms ✓',
+      '        input:  [{"role":"user","content":"Hello"}]',
+      '        output: {"flights":3}',
+    ]);
+  });
+
+  it('should show errors and truncate long content', () => {
+    exporter = new ConsoleExporter({ maxContentLength: 10, write: (line) => output.push(line) });
+
+    exporter.export([
+      createSpan({ status: 'error', errorMessage: 'Rate limited', input: 'a'.repeat(50) }),
+      createRoot(),
+    ]);
+
+    expect(output[0]).toContain('✗ Rate limited');
+    expect(output[0]).toContain(`input:  ${'a'.repeat(10)}…`);
+    expect(output[0].split('\n')[0]).toMatch(/✗$/);
+  });
+
+  it('should hide content when maxContentLength is 0', () => {
+    exporter = new ConsoleExporter({ maxContentLength: 0, write: (line) => output.push(line) });
+
+    exporter.export([createSpan(), createRoot()]);
+
+    expect(output[0]).not.toContain('input:');
+  });
+
+  it('should print spans outside trace() immediately', () => {
+    exporter.export([createSpan({ traceId: undefined, parentSpanId: undefined })]);
+
+    expect(output[0].split('\n')[0]).toBe('[Lelemon] Span gpt-4o 250ms tokens=25 ✓');
+  });
+
+  it('should keep nested trace() agents inside the outer tree', () => {
+    exporter.export([
+      createSpan({ parentSpanId: 'inner' }),
+      createRoot({ spanId: 'inner', parentSpanId: 'root', name: 'researcher' }),
+    ]);
+    expect(output).toHaveLength(0);
+
+    exporter.export([createRoot()]);
+    expect(output[0]).toContain('   └─ agent researcher');
+  });
+
+  it('should print incomplete traces on forceFlush', () => {
+    exporter.export([createSpan()]);
+    exporter.forceFlush();
+
+    expect(output[0]).toContain('(incomplete)');
+  });
+
+  it('should print the oldest trace early when the buffer is full', () => {
+    exporter = new ConsoleExporter({ maxBufferedSpans: 2, write: (line) => output.push(line) });
+
+    exporter.export([createSpan({ traceId: 'a' }), createSpan({ traceId: 'b' })]);
+    expect(output).toHaveLength(0);
+
+    exporter.export([createSpan({ traceId: 'c' })]);
+    expect(output).toHaveLength(1);
+    expect(output[0]).toContain('(incomplete)');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readEnvConfig, resolveConfig } from '../../src/core/env';
+import { init, flush, isEnabled, getConfig } from '../../src/core/config';
+import { captureTrace } from '../../src/core/capture';
+
+describe('Environment configuration', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should parse scalar and nested variables', () => {
+    vi.stubEnv('LELEMON_API_KEY', 'le_env');
+    vi.stubEnv('LELEMON_DISABLED', 'false');
+    vi.stubEnv('LELEMON_BATCH_SIZE', '50');
+    vi.stubEnv('LELEMON_SAMPLING', '0.25');
+    vi.stubEnv('LELEMON_HEADERS', 'X-Gateway-Key=gw_1,X-Team=ml%20ops');
+    vi.stubEnv('LELEMON_RETRY_MAX_RETRIES', '0');
+    vi.stubEnv('LELEMON_SERVICE_NAME', 'chatbot');
+    vi.stubEnv('LELEMON_ENVIRONMENT', 'staging');
+    vi.stubEnv('LELEMON_REDACT_EMAILS', 'true');
+    vi.stubEnv('LELEMON_REDACT_KEYS', 'cpf, rut');
+
+    expect(readEnvConfig()).toEqual({
+      apiKey: 'le_env',
+      disabled: false,
+      batchSize: 50,
+      sampling: 0.25,
+      headers: { 'X-Gateway-Key': 'gw_1', 'X-Team': 'ml ops' },
+      retry: { maxRetries: 0 },
+      service: { name: 'chatbot', environment: 'staging' },
+      redaction: { emails: true, keys: ['cpf', 'rut'] },
+    });
+  });
+
+  it('should ignore invalid values with a warning that hides the value', () => {
+    vi.stubEnv('LELEMON_BATCH_SIZE', 'lots');
+    vi.stubEnv('LELEMON_SAMPLING', '1.5');
+    vi.stubEnv('LELEMON_HEADERS', 'secret-token');
+    vi.stubEnv('LELEMON_COMPRESSION', 'brotli');
+
+    expect(readEnvConfig()).toEqual({});
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring LELEMON_BATCH_SIZE: expected an integer >= 1'));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring LELEMON_SAMPLING'));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring LELEMON_COMPRESSION: expected gzip | deflate | false'));
+    expect(JSON.stringify(vi.mocked(console.warn).mock.calls)).not.toContain('secret-token');
+  });
+
+  it('should disable the circuit breaker with LELEMON_CIRCUIT_BREAKER=false', () => {
+    vi.stubEnv('LELEMON_CIRCUIT_BREAKER', 'false');
+    vi.stubEnv('LELEMON_CIRCUIT_BREAKER_FAILURE_THRESHOLD', '3');
+
+    expect(readEnvConfig()).toEqual({ circuitBreaker: false });
+  });
+
+  it('should let init() arguments win, merging nested objects field by field', () => {
+    vi.stubEnv('LELEMON_ENDPOINT', 'https://env.test');
+    vi.stubEnv('LELEMON_BATCH_SIZE', '50');
+    vi.stubEnv('LELEMON_SERVICE_NAME', 'from-env');
+    vi.stubEnv('LELEMON_ENVIRONMENT', 'staging');
+
+    expect(resolveConfig({ batchSize: 5, endpoint: undefined, service: { name: 'from-code' } })).toEqual({
+      endpoint: 'https://env.test',
+      batchSize: 5,
+      service: { name: 'from-code', environment: 'staging' },
+    });
+  });
+
+  it('should configure init() from the environment', async () => {
+    const mockFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+    vi.stubEnv('LELEMON_API_KEY', 'le_env');
+    vi.stubEnv('LELEMON_ENDPOINT', 'https://env.test');
+
+    init();
+    captureTrace({ provider: 'openai', model: 'gpt-4o', input: 'Hi', durationMs: 1, status: 'success', streaming: false });
+    await flush();
+
+    expect(mockFetch).toHaveBeenCalledWith('https://env.test/api/v1/ingest', expect.anything());
+    expect(getConfig().apiKey).toBe('le_env');
+
+    vi.stubEnv('LELEMON_DISABLED', 'true');
+    init();
+    expect(isEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BatchExporter, ExportPipeline, getCaptureTime } from '../../src/core/exporter';
+import type { SpanSink } from '../../src/core/exporter';
+import type { CreateTraceRequest, SpanExporter } from '../../src/core/types';
+import { createTrace } from '../helpers/spans';
+
+function createExporter(overrides: Partial<SpanExporter> = {}): SpanExporter & { batches: CreateTraceRequest[][] } {
+  const batches: CreateTraceRequest[][] = [];
+  return {
+    name: 'test',
+    batches,
+    export: vi.fn((batch: CreateTraceRequest[]) => {
+      batches.push(batch);
+    }),
+    forceFlush: vi.fn(),
+    shutdown: vi.fn(),
+    ...overrides,
+  };
+}
+
+function createSink(enabled = true): SpanSink & { items: CreateTraceRequest[] } {
+  const items: CreateTraceRequest[] = [];
+  return {
+    items,
+    isEnabled: () => enabled,
+    enqueue: (trace) => items.push(trace),
+    flush: vi.fn(async () => {}),
+    shutdown: vi.fn(async () => {}),
+  };
+}
+
+describe('BatchExporter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should export when the batch size is reached', () => {
+    const exporter = createExporter();
+    const sink = new BatchExporter(exporter, { batchSize: 2 });
+
+    sink.enqueue(createTrace({ model: 'a' }));
+    expect(exporter.export).not.toHaveBeenCalled();
+
+    sink.enqueue(createTrace({ model: 'b' }));
+    expect(exporter.batches).toEqual([[createTrace({ model: 'a' }), createTrace({ model: 'b' })]]);
+  });
+
+  it('should export after the flush interval', async () => {
+    const exporter = createExporter();
+    const sink = new BatchExporter(exporter, { flushIntervalMs: 500 });
+
+    sink.enqueue(createTrace());
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(exporter.batches).toHaveLength(1);
+  });
+
+  it('should export pending spans and call forceFlush on flush', async () => {
+    const exporter = createExporter();
+    const sink = new BatchExporter(exporter);
+
+    sink.enqueue(createTrace());
+    await sink.flush();
+
+    expect(exporter.batches).toHaveLength(1);
+    expect(exporter.forceFlush).toHaveBeenCalledOnce();
+  });
+
+  it('should flush then shut the exporter down', async () => {
+    const exporter = createExporter();
+    const sink = new BatchExporter(exporter);
+
+    sink.enqueue(createTrace());
+    await sink.shutdown();
+
+    expect(exporter.batches).toHaveLength(1);
+    expect(exporter.shutdown).toHaveBeenCalledOnce();
+  });
+
+  it('should log exporter failures without throwing', async () => {
+    const exporter = createExporter({
+      export: vi.fn(async () => {
+        throw new Error('disk full');
+      }),
+    });
+    const sink = new BatchExporter(exporter);
+
+    sink.enqueue(createTrace());
+    await expect(sink.flush()).resolves.toBeUndefined();
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('exporter=test error=disk full'));
+  });
+
+  it('should run one export at a time and keep later spans queued', async () => {
+    let release = () => {};
+    const exporter = createExporter({
+      export: vi.fn((batch: CreateTraceRequest[]) => {
+        exporter.batches.push(batch);
+        return new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }),
+    });
+    const sink = new BatchExporter(exporter, { batchSize: 2 });
+
+    ['a', 'b', 'c', 'd', 'e'].forEach((model) => sink.enqueue(createTrace({ model })));
+    expect(exporter.export).toHaveBeenCalledOnce();
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(exporter.batches.map((batch) => batch.map((span) => span.model))).toEqual([['a', 'b'], ['c', 'd']]);
+
+    const flushed = sink.flush();
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    release();
+    await flushed;
+    expect(exporter.batches.map((batch) => batch.map((span) => span.model))).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('should drop and count spans beyond maxQueueSize while an export hangs', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const exporter = createExporter({ export: vi.fn(() => new Promise<void>(() => {})) });
+    const sink = new BatchExporter(exporter, { batchSize: 1, maxQueueSize: 3 });
+
+    for (let i = 0; i < 10; i++) {
+      sink.enqueue(createTrace({ model: `m${i}` }));
+    }
+
+    expect(exporter.export).toHaveBeenCalledOnce();
+    expect(sink.getDroppedSpans()).toBe(6);
+    expect(console.warn).toHaveBeenCalledOnce();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Exporter test queue full'));
+  });
+});
+
+describe('ExportPipeline', () => {
+  it('should fan spans out to every enabled sink', () => {
+    const first = createSink();
+    const second = createSink();
+    const disabled = createSink(false);
+    const pipeline = new ExportPipeline([first, second, disabled]);
+
+    pipeline.enqueue(createTrace());
+
+    expect(first.items).toHaveLength(1);
+    expect(second.items).toHaveLength(1);
+    expect(disabled.items).toHaveLength(0);
+  });
+
+  it('should be enabled when any sink is enabled', () => {
+    expect(new ExportPipeline([createSink(false), createSink()]).isEnabled()).toBe(true);
+    expect(new ExportPipeline([createSink(false)]).isEnabled()).toBe(false);
+    expect(new ExportPipeline([]).isEnabled()).toBe(false);
+  });
+
+  it('should isolate a throwing sink', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = createSink();
+    broken.enqueue = () => {
+      throw new Error('boom');
+    };
+    const healthy = createSink();
+
+    new ExportPipeline([broken, healthy]).enqueue(createTrace());
+
+    expect(healthy.items).toHaveLength(1);
+  });
+
+  it('should give each custom exporter its own copy of the span', async () => {
+    const mutating = createExporter({
+      export: (batch) => {
+        for (const span of batch) {
+          span.model = 'renamed';
+          (span.input as Array<{ content: string }>)[0].content = 'rewritten';
+        }
+      },
+    });
+    const other = createExporter();
+    const transport = createSink();
+    const pipeline = new ExportPipeline([new BatchExporter(mutating), new BatchExporter(other), transport]);
+
+    pipeline.enqueue(createTrace());
+    await pipeline.flush();
+
+    expect(transport.items).toEqual([createTrace({ spanId: expect.any(String) })]);
+    expect(other.batches).toEqual([[createTrace({ spanId: expect.any(String) })]]);
+    expect(getCaptureTime(other.batches[0][0])).toBe(getCaptureTime(transport.items[0]));
+  });
+
+  it('should ignore spans and report disabled after shutdown', async () => {
+    const sink = createSink();
+    const pipeline = new ExportPipeline([sink]);
+
+    await Promise.all([pipeline.shutdown(), pipeline.shutdown()]);
+    pipeline.enqueue(createTrace());
+
+    expect(sink.items).toHaveLength(0);
+    expect(sink.shutdown).toHaveBeenCalledOnce();
+    expect(pipeline.isEnabled()).toBe(false);
+  });
+
+  it('should flush and shut down every sink', async () => {
+    const first = createSink();
+    const second = createSink();
+    const pipeline = new ExportPipeline([first, second]);
+
+    await pipeline.flush();
+    await pipeline.shutdown();
+
+    expect(first.flush).toHaveBeenCalledOnce();
+    expect(second.shutdown).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { FileExporter } from '../../src/exporters/file';
+import { createTrace } from '../helpers/spans';
+
+describe('FileExporter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lelemon-file-'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append spans as JSONL in the ingest schema', async () => {
+    const exporter = new FileExporter({ directory: join(directory, 'nested') });
+
+    await exporter.export([createTrace({ model: 'a' }), createTrace({ model: 'b' })]);
+    await exporter.export([createTrace({ model: 'c' })]);
+
+    const files = await readdir(join(directory, 'nested'));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^lelemon-\d{8}T\d{6}Z-\d+-0000\.jsonl$/);
+
+    const lines = (await readFile(join(directory, 'nested', files[0]), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toEqual([createTrace({ model: 'a' }), createTrace({ model: 'b' }), createTrace({ model: 'c' })]);
+  });
+
+  it('should rotate by size', async () => {
+    const exporter = new FileExporter({ directory, maxFileBytes: 200 });
+
+    for (let i = 0; i < 4; i++) {
+      await exporter.export([createTrace()]);
+    }
+
+    expect((await readdir(directory)).length).toBeGreaterThan(1);
+  });
+
+  it('should rotate by age', async () => {
+    const now = Date.now();
+    const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now);
+    const exporter = new FileExporter({ directory, rotateIntervalMs: 1000, filePrefix: 'audit' });
+
+    await exporter.export([createTrace()]);
+    dateNow.mockReturnValue(now + 999);
+    await exporter.export([createTrace()]);
+    expect(await readdir(directory)).toHaveLength(1);
+
+    dateNow.mockReturnValue(now + 1000);
+    await exporter.export([createTrace()]);
+
+    const files = (await readdir(directory)).sort();
+    expect(files).toHaveLength(2);
+    expect(files.every((file) => file.startsWith('audit-'))).toBe(true);
+  });
+
+  it('should gzip rotated files when compress is enabled', async () => {
+    const exporter = new FileExporter({ directory, maxFileBytes: 200, compress: true });
+
+    await exporter.export([createTrace({ model: 'a' })]);
+    await exporter.export([createTrace({ model: 'b' })]);
+    await exporter.shutdown();
+
+    const files = (await readdir(directory)).sort();
+    expect(files).toHaveLength(2);
+    expect(files.every((file) => file.endsWith('.jsonl.gz'))).toBe(true);
+
+    const content = gunzipSync(await readFile(join(directory, files[0]))).toString('utf8');
+    expect(JSON.parse(content.trim())).toEqual(createTrace({ model: 'a' }));
+  });
+
+  it('should reject when the directory cannot be created', async () => {
+    await writeFile(join(directory, 'not-a-directory'), '');
+    const exporter = new FileExporter({ directory: join(directory, 'not-a-directory', 'logs') });
+
+    await expect(exporter.export([createTrace()])).rejects.toThrow();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { init, flush } from '../../src/core/config';
+import type { LelemonConfig, SpanExporter } from '../../src/core/types';
+import { captureLLMCall } from '../helpers/capture';
+
+describe('Lifecycle hooks', () => {
+  const mockFetch = vi.fn();
+
+  function setup(hooks: LelemonConfig): void {
+    init({ apiKey: 'le_test', endpoint: 'https://api.test', retry: { maxRetries: 0 }, ...hooks });
+  }
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should call onSpanCaptured for every span', () => {
+    const onSpanCaptured = vi.fn();
+    setup({ onSpanCaptured });
+
+    captureLLMCall();
+
+    expect(onSpanCaptured).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4o', status: 'success' }));
+  });
+
+  it('should call onBatchSent after the ingest API accepts a batch', async () => {
+    const onBatchSent = vi.fn();
+    setup({ onBatchSent });
+
+    captureLLMCall();
+    await flush();
+
+    expect(onBatchSent).toHaveBeenCalledWith({
+      exporter: 'lelemon',
+      spans: [expect.objectContaining({ model: 'gpt-4o' })],
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('should pass the failed spans to onExportError', async () => {
+    mockFetch.mockImplementation(async () => new Response('boom', { status: 500 }));
+    const onExportError = vi.fn();
+    setup({ onExportError });
+
+    captureLLMCall();
+    await flush();
+
+    expect(onExportError).toHaveBeenCalledWith({
+      exporter: 'lelemon',
+      error: expect.objectContaining({ message: 'HTTP 500: boom' }),
+      spans: [expect.objectContaining({ model: 'gpt-4o' })],
+    });
+  });
+
+  it('should report custom exporter results', async () => {
+    const onBatchSent = vi.fn();
+    const onExportError = vi.fn();
+    const failing: SpanExporter = {
+      name: 'failing',
+      export: () => {
+        throw new Error('disk full');
+      },
+      shutdown: () => {},
+    };
+    const working: SpanExporter = { name: 'working', export: () => {}, shutdown: () => {} };
+    init({ exporters: [failing, working], onBatchSent, onExportError });
+
+    captureLLMCall();
+    await flush();
+
+    expect(onBatchSent).toHaveBeenCalledWith(expect.objectContaining({ exporter: 'working' }));
+    expect(onExportError).toHaveBeenCalledWith({
+      exporter: 'failing',
+      error: expect.objectContaining({ message: 'disk full' }),
+      spans: [expect.objectContaining({ model: 'gpt-4o' })],
+    });
+  });
+
+  it('should report capture failures', () => {
+    const onExportError = vi.fn();
+    setup({ onExportError });
+
+    captureLLMCall({
+      metadata: {
+        get broken(): never {
+          throw new Error('bad metadata');
+        },
+      },
+    });
+
+    expect(onExportError).toHaveBeenCalledWith({
+      exporter: 'capture',
+      error: expect.objectContaining({ message: 'bad metadata' }),
+      spans: [],
+    });
+  });
+
+  it('should isolate throwing and rejecting hooks', async () => {
+    setup({
+      onSpanCaptured: () => {
+        throw new Error('hook bug');
+      },
+      onBatchSent: async () => {
+        throw new Error('async hook bug');
+      },
+    });
+
+    expect(() => captureLLMCall()).not.toThrow();
+    await flush();
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    await vi.waitFor(() => {
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('onSpanCaptured hook threw'), 'hook bug');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('onBatchSent hook threw'), 'async hook bug');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { init, shutdown, getPipeline } from '../../src/core/config';
+import { registerShutdownHooks } from '../../src/core/lifecycle';
+import { createTrace } from '../helpers/spans';
+
+describe('shutdown', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    init({ apiKey: 'le_test', endpoint: 'https://api.test', flushIntervalMs: 60_000 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should send queued spans and ignore spans captured afterwards', async () => {
+    getPipeline().enqueue(createTrace());
+    await shutdown();
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+
+    getPipeline().enqueue(createTrace());
+    await shutdown();
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it('should resolve after timeoutMs when the API hangs', async () => {
+    mockFetch.mockImplementation(() => new Promise(() => {}));
+
+    getPipeline().enqueue(createTrace());
+    await shutdown({ timeoutMs: 20 });
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Shutdown timed out after 20ms'));
+  });
+});
+
+describe('registerShutdownHooks', () => {
+  const mockFetch = vi.fn();
+  let unregister: () => void = () => {};
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+    init({ apiKey: 'le_test', endpoint: 'https://api.test', flushIntervalMs: 60_000 });
+    getPipeline().enqueue(createTrace());
+  });
+
+  afterEach(() => {
+    unregister();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should shut down on beforeExit', async () => {
+    unregister = registerShutdownHooks();
+
+    process.emit('beforeExit', 0);
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledOnce());
+  });
+
+  it('should re-raise the signal when no other handler exists', async () => {
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    const listeners = process.listeners('SIGTERM');
+    process.removeAllListeners('SIGTERM');
+
+    try {
+      unregister = registerShutdownHooks();
+      process.emit('SIGTERM', 'SIGTERM');
+
+      await vi.waitFor(() => expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM'));
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(process.listenerCount('SIGTERM')).toBe(0);
+    } finally {
+      listeners.forEach((listener) => process.on('SIGTERM', listener));
+    }
+  });
+
+  it('should leave exiting to the app when it has its own handler', async () => {
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    const appHandler = vi.fn();
+    process.on('SIGINT', appHandler);
+
+    try {
+      unregister = registerShutdownHooks({ signals: ['SIGINT'] });
+      process.emit('SIGINT', 'SIGINT');
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledOnce());
+      expect(appHandler).toHaveBeenCalledOnce();
+      expect(kill).not.toHaveBeenCalled();
+    } finally {
+      process.off('SIGINT', appHandler);
+    }
+  });
+
+  it('should keep the first registration', () => {
+    unregister = registerShutdownHooks();
+    const before = process.listenerCount('beforeExit');
+
+    expect(registerShutdownHooks()).toBe(unregister);
+    expect(process.listenerCount('beforeExit')).toBe(before);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server, IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OTLPExporter, toOTLPSpan } from '../../src/exporters/otlp';
+import type { OTLPTraceRequest } from '../../src/exporters/otlp';
+import type { CreateTraceRequest } from '../../src/core/types';
+import { createChatCompletionResponse } from '../fixtures/openai';
+
+const TRACE_ID = '0f6a8f2e-3c1d-4b5a-9e7f-1a2b3c4d5e6f';
+const ROOT_SPAN_ID = 'aaaaaaaa-bbbb-4ccc-8ddd-eeeeeeeeeeee';
+const LLM_SPAN_ID = '11111111-2222-4333-8444-555555555555';
+
+function createLLMSpan(overrides: Partial<CreateTraceRequest> = {}): CreateTraceRequest {
+  return {
+    provider: 'openai',
+    model: 'gpt-4o',
+    input: [{ role: 'user', content: 'Hello' }],
+    rawResponse: createChatCompletionResponse(),
+    durationMs: 250,
+    status: 'success',
+    streaming: false,
+    traceId: TRACE_ID,
+    spanId: LLM_SPAN_ID,
+    parentSpanId: ROOT_SPAN_ID,
+    sessionId: 'session-1',
+    ...overrides,
+  };
+}
+
+function attribute(span: ReturnType<typeof toOTLPSpan>, key: string): unknown {
+  return span.attributes.find((a) => a.key === key)?.value;
+}
+
+describe('OTLP Exporter', () => {
+  describe('toOTLPSpan', () => {
+    it('should map IDs to OTLP hex IDs', () => {
+      const span = toOTLPSpan(createLLMSpan());
+
+      expect(span.traceId).toBe('0f6a8f2e3c1d4b5a9e7f1a2b3c4d5e6f');
+      expect(span.spanId).toBe('1111111122224333');
+      expect(span.parentSpanId).toBe('aaaaaaaabbbb4ccc');
+    });
+
+    it('should hash non-UUID IDs into valid hex IDs', () => {
+      const span = toOTLPSpan(createLLMSpan({ traceId: 'lx2k3-abc123', spanId: 'lx2k4-def456' }));
+
+      expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should use gen_ai semantic conventions for LLM spans', () => {
+      const span = toOTLPSpan(createLLMSpan());
+
+      expect(span.name).toBe('chat gpt-4o');
+      expect(span.kind).toBe(3);
+      expect(attribute(span, 'gen_ai.operation.name')).toEqual({ stringValue: 'chat' });
+      expect(attribute(span, 'gen_ai.provider.name')).toEqual({ stringValue: 'openai' });
+      expect(attribute(span, 'gen_ai.request.model')).toEqual({ stringValue: 'gpt-4o' });
+      expect(attribute(span, 'gen_ai.usage.input_tokens')).toEqual({ intValue: '10' });
+      expect(attribute(span, 'gen_ai.usage.output_tokens')).toEqual({ intValue: '15' });
+      expect(attribute(span, 'gen_ai.response.finish_reasons')).toEqual({
+        arrayValue: { values: [{ stringValue: 'stop' }] },
+      });
+      expect(attribute(span, 'session.id')).toEqual({ stringValue: 'session-1' });
+    });
+
+    it('should map agent and tool spans', () => {
+      const agent = toOTLPSpan(createLLMSpan({ spanType: 'agent', provider: 'agent', name: 'sales-agent' }));
+      const tool = toOTLPSpan(createLLMSpan({ spanType: 'tool', provider: 'unknown', name: 'get_weather', toolCallId: 'call_1' }));
+
+      expect(agent.name).toBe('invoke_agent sales-agent');
+      expect(agent.kind).toBe(1);
+      expect(attribute(agent, 'gen_ai.agent.name')).toEqual({ stringValue: 'sales-agent' });
+      expect(tool.name).toBe('execute_tool get_weather');
+      expect(attribute(tool, 'gen_ai.tool.call.id')).toEqual({ stringValue: 'call_1' });
+    });
+
+    it('should derive start time from duration', () => {
+      const span = toOTLPSpan(createLLMSpan({ durationMs: 1500 }));
+      const durationNs = BigInt(span.endTimeUnixNano) - BigInt(span.startTimeUnixNano);
+
+      expect(durationNs).toBe(1_500_000_000n);
+    });
+
+    it('should use the capture time recorded by a separately bundled pipeline', async () => {
+      // Each package entry point bundles its own copy of the pipeline module
+      vi.resetModules();
+      const { ExportPipeline } = await import('../../src/core/exporter');
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+
+      try {
+        const trace = createLLMSpan();
+        new ExportPipeline([]).enqueue(trace);
+        vi.setSystemTime(1_700_000_001_000);
+
+        expect(toOTLPSpan(trace).endTimeUnixNano).toBe('1700000000000000000');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should set error status', () => {
+      const span = toOTLPSpan(createLLMSpan({ status: 'error', errorMessage: 'Rate limited' }));
+
+      expect(span.status).toEqual({ code: 2, message: 'Rate limited' });
+    });
+
+    it('should only include content when asked', () => {
+      expect(attribute(toOTLPSpan(createLLMSpan()), 'gen_ai.input.messages')).toBeUndefined();
+      expect(attribute(toOTLPSpan(createLLMSpan(), true), 'gen_ai.input.messages')).toEqual({
+        stringValue: JSON.stringify([{ role: 'user', content: 'Hello' }]),
+      });
+    });
+  });
+
+  describe('with a mock collector', () => {
+    let server: Server;
+    let url: string;
+    let requests: Array<{ headers: IncomingHttpHeaders; body: OTLPTraceRequest }>;
+    let status = 200;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          requests.push({ headers: req.headers, body: JSON.parse(body) });
+          res.writeHead(status).end('{}');
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests = [];
+      status = 200;
+    });
+
+    it('should POST OTLP JSON with resource attributes', async () => {
+      const exporter = new OTLPExporter({
+        url,
+        headers: { 'x-collector-token': 'secret' },
+        resourceAttributes: { 'service.name': 'chat-api' },
+      });
+
+      await exporter.export([createLLMSpan(), createLLMSpan({ spanType: 'agent', provider: 'agent', spanId: ROOT_SPAN_ID, parentSpanId: undefined })]);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers['content-type']).toBe('application/json');
+      expect(requests[0].headers['x-collector-token']).toBe('secret');
+
+      const [resourceSpans] = requests[0].body.resourceSpans;
+      expect(resourceSpans.resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'chat-api' } });
+      expect(resourceSpans.scopeSpans[0].scope.name).toBe('@lelemondev/sdk');
+      expect(resourceSpans.scopeSpans[0].spans).toHaveLength(2);
+      expect(resourceSpans.scopeSpans[0].spans[1].parentSpanId).toBeUndefined();
+    });
+
+    it('should throw when the collector rejects the request', async () => {
+      status = 400;
+      const exporter = new OTLPExporter({ url });
+
+      await expect(exporter.export([createLLMSpan()])).rejects.toThrow('HTTP 400');
+    });
+  });
+});
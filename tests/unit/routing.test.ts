@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { init, flush } from '../../src/core/config';
+import { setGlobalContext } from '../../src/core/capture';
+import { trace } from '../../src/core/context';
+import { observe } from '../../src/observe';
+import type { CreateTraceRequest, LelemonConfig } from '../../src/core/types';
+import { captureLLMCall } from '../helpers/capture';
+import { createMockOpenAIClient } from '../helpers/mock-client';
+
+describe('Multi-project routing', () => {
+  const mockFetch = vi.fn();
+
+  function setup(config: LelemonConfig = {}): void {
+    init({ apiKey: 'le_default', endpoint: 'https://api.test', compression: false, ...config });
+  }
+
+  /** Sent span models grouped by the API key they were sent with */
+  function sentByKey(): Record<string, string[]> {
+    const byKey: Record<string, string[]> = {};
+    for (const [, request] of mockFetch.mock.calls) {
+      const key = request.headers['Authorization'].replace('Bearer ', '');
+      const events = JSON.parse(request.body).events as CreateTraceRequest[];
+      (byKey[key] ??= []).push(...events.map((event) => event.model));
+    }
+    return byKey;
+  }
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setGlobalContext({});
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should send each trace with its projectKey, inherited by nested spans', async () => {
+    setup();
+
+    await trace({ name: 'tenant-a', projectKey: 'le_a' }, async () => {
+      captureLLMCall({ model: 'model-a' });
+      await trace('nested', async () => {
+        captureLLMCall({ model: 'model-a-nested' });
+      });
+    });
+    await trace({ name: 'tenant-b', projectKey: 'le_b' }, async () => {
+      captureLLMCall({ model: 'model-b' });
+    });
+    captureLLMCall({ model: 'model-default' });
+    await flush();
+
+    expect(sentByKey()).toEqual({
+      le_a: ['model-a', 'model-a-nested', 'nested', 'tenant-a'],
+      le_b: ['model-b', 'tenant-b'],
+      le_default: ['model-default'],
+    });
+  });
+
+  it('should route spans captured through another package entry point', async () => {
+    // Each entry point bundles its own copy of the core modules
+    vi.resetModules();
+    const openaiEntry = await import('../../src/openai');
+    setup();
+
+    await openaiEntry.trace({ name: 'tenant', projectKey: 'le_tenant' }, async () => {
+      openaiEntry.captureSpan({ type: 'tool', name: 'lookup', durationMs: 5 });
+    });
+    await flush();
+
+    expect(Object.keys(sentByKey())).toEqual(['le_tenant']);
+  });
+
+  it('should use the projectKey from observe options', async () => {
+    setup();
+    setGlobalContext({ projectKey: 'le_observed' });
+
+    captureLLMCall();
+    await flush();
+
+    expect(sentByKey()).toEqual({ le_observed: ['gpt-4o'] });
+  });
+
+  it('should keep each observed client on its own projectKey', async () => {
+    setup();
+
+    function observeTenant(model: string, projectKey: string) {
+      const client = createMockOpenAIClient();
+      client.chat.completions.create.mockResolvedValue({ model, choices: [{ message: { role: 'assistant', content: 'Hi' } }] });
+      return observe(client, { projectKey });
+    }
+
+    const tenantA = observeTenant('model-a', 'le_a');
+    const tenantB = observeTenant('model-b', 'le_b');
+
+    await tenantA.chat.completions.create({ model: 'model-a', messages: [] });
+    await tenantB.chat.completions.create({ model: 'model-b', messages: [] });
+    captureLLMCall({ model: 'model-default' });
+    await flush();
+
+    expect(sentByKey()).toEqual({ le_a: ['model-a'], le_b: ['model-b'], le_default: ['model-default'] });
+  });
+
+  it('should let routeSpan pick the key and fall back when it returns undefined', async () => {
+    setup({ routeSpan: (span) => (span.userId ? `le_${span.userId}` : undefined) });
+
+    setGlobalContext({ userId: 'acme' });
+    captureLLMCall({ model: 'acme-call' });
+    setGlobalContext({});
+    captureLLMCall({ model: 'anonymous-call' });
+    await flush();
+
+    expect(sentByKey()).toEqual({ le_acme: ['acme-call'], le_default: ['anonymous-call'] });
+  });
+
+  it('should never put the project key in the payload', async () => {
+    setup();
+
+    await trace({ name: 'tenant-a', projectKey: 'le_secret' }, async () => {
+      captureLLMCall();
+    });
+    await flush();
+
+    expect(mockFetch.mock.calls[0][1].body).not.toContain('le_secret');
+  });
+
+  it('should send per-trace projectKeys without a default apiKey or routeSpan', async () => {
+    init({ endpoint: 'https://api.test', compression: false });
+
+    await trace({ name: 'tenant', projectKey: 'le_x' }, async () => {
+      captureLLMCall({ model: 'tenant-call' });
+    });
+    captureLLMCall({ model: 'unrouted' });
+    await flush();
+
+    expect(sentByKey()).toEqual({ le_x: ['tenant-call', 'tenant'] });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Only spans with a projectKey are sent'));
+  });
+
+  it('should drop spans with no key when there is no default apiKey', async () => {
+    init({ endpoint: 'https://api.test', routeSpan: (span) => span.metadata?.tenantKey as string | undefined });
+
+    await trace({ name: 'routed', metadata: { tenantKey: 'le_t' } }, async () => {});
+    captureLLMCall({ model: 'unrouted' });
+    await flush();
+
+    expect(sentByKey()).toEqual({ le_t: ['routed'] });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { flush } from '../../src/core/config';
+import { captureSpan } from '../../src/core/capture';
+import { trace, span } from '../../src/core/context';
+import type { SamplingContext } from '../../src/core/types';
+import { captureLLMCall, initWithExporter } from '../helpers/capture';
+
+describe('Head sampling', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should keep everything by default', async () => {
+    const exported = initWithExporter();
+
+    captureLLMCall();
+    await flush();
+
+    expect(exported).toHaveLength(1);
+  });
+
+  it('should drop everything with a ratio of 0', async () => {
+    const exported = initWithExporter({ sampling: 0 });
+
+    await trace('agent', async () => {
+      captureLLMCall();
+    });
+    captureLLMCall();
+    await flush();
+
+    expect(exported).toHaveLength(0);
+  });
+
+  it('should apply the ratio per trace', async () => {
+    const random = vi.spyOn(Math, 'random');
+    const exported = initWithExporter({ sampling: 0.5 });
+
+    random.mockReturnValue(0.2);
+    await trace('kept', async () => {
+      captureLLMCall();
+    });
+    random.mockReturnValue(0.7);
+    await trace('dropped', async () => {
+      captureLLMCall();
+    });
+    await flush();
+
+    expect(exported.map((s) => s.spanType ?? 'llm')).toEqual(['llm', 'agent']);
+    expect(exported.every((s) => s.traceId === exported[0].traceId)).toBe(true);
+  });
+
+  it('should decide once per trace and never sample a trace partly', async () => {
+    const sampler = vi.fn(() => false);
+    const exported = initWithExporter({ sampling: sampler });
+
+    await trace({ name: 'agent', userId: 'user-1', tags: ['beta'] }, async () => {
+      captureLLMCall();
+      span({ type: 'tool', name: 'search' });
+      await trace('sub-agent', async () => {
+        captureLLMCall();
+      });
+    });
+    await flush();
+
+    expect(exported).toHaveLength(0);
+    expect(sampler).toHaveBeenCalledOnce();
+    expect(sampler).toHaveBeenCalledWith<[SamplingContext]>({
+      model: 'agent',
+      provider: 'agent',
+      name: 'agent',
+      userId: 'user-1',
+      sessionId: undefined,
+      tags: ['beta'],
+    });
+  });
+
+  it('should decide per span outside trace()', async () => {
+    const exported = initWithExporter({ sampling: (context) => context.model === 'gpt-4o' });
+
+    captureLLMCall();
+    captureSpan({ type: 'retrieval', name: 'vector-search', durationMs: 5 });
+    await flush();
+
+    expect(exported.map((s) => s.model)).toEqual(['gpt-4o']);
+  });
+
+  it('should skip sanitization for unsampled spans', async () => {
+    initWithExporter({ sampling: 0 });
+    let reads = 0;
+    const input = {
+      get messages() {
+        reads++;
+        return [];
+      },
+    };
+
+    captureLLMCall({ input });
+
+    expect(reads).toBe(0);
+  });
+
+  it('should keep the trace when the sampling function throws', async () => {
+    const exported = initWithExporter({
+      sampling: () => {
+        throw new Error('boom');
+      },
+    });
+
+    captureLLMCall();
+    await flush();
+
+    expect(exported).toHaveLength(1);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Sampling function threw'), 'boom');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { init, shutdown } from '../../src/core/config';
+import type { CreateTraceRequest } from '../../src/core/types';
+
+describe('Self-report', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await shutdown({ timeoutMs: 10 });
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function sentSpans(): CreateTraceRequest[] {
+    return mockFetch.mock.calls.flatMap(([, request]) => JSON.parse(request.body).events);
+  }
+
+  it('should emit a lelemon.stats span every interval', async () => {
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    init({ apiKey: 'le_test', endpoint: 'https://api.test', selfReportIntervalMs: 60_000, compression: false });
+
+    await vi.advanceTimersByTimeAsync(60_000 + 1000);
+
+    const [report] = sentSpans();
+    expect(report).toMatchObject({ spanType: 'custom', name: 'lelemon.stats', status: 'success' });
+    expect(report.output).toMatchObject({ enqueuedSpans: 0, failedBatches: 0 });
+  });
+
+  it('should mark the report as an error when batches failed since the last one', async () => {
+    mockFetch.mockImplementationOnce(async () => new Response('bad', { status: 400 }));
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    init({ apiKey: 'le_test', endpoint: 'https://api.test', selfReportIntervalMs: 60_000, compression: false });
+
+    await vi.advanceTimersByTimeAsync(60_000 + 1000); // first report is rejected
+    await vi.advanceTimersByTimeAsync(60_000 + 1000);
+    await vi.advanceTimersByTimeAsync(60_000 + 1000);
+
+    const reports = sentSpans();
+    expect(reports.map((r) => r.status)).toEqual(['success', 'error', 'success']);
+    expect(reports[1].errorMessage).toBe('1 batch(es) failed: HTTP 400: bad');
+  });
+
+  it('should be off by default', async () => {
+    init({ apiKey: 'le_test', endpoint: 'https://api.test' });
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSpool } from '../../src/core/spool';
+import { Transport } from '../../src/core/transport';
+import { setProjectKey } from '../../src/core/routing';
+import type { CreateTraceRequest } from '../../src/core/types';
+import { createTrace } from '../helpers/spans';
+
+// A segment left behind by a process that no longer exists
+const DEAD_SEGMENT = '1700000000000-999999999-deadbeef-000000.jsonl';
+
+describe('FileSpool', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lelemon-spool-'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append spans as JSONL and delete the segment once acked', async () => {
+    const spool = new FileSpool({ directory });
+    const items = [createTrace({ model: 'a' }), createTrace({ model: 'b' })];
+    items.forEach((item) => spool.append(item));
+    await spool.idle();
+
+    const [segment] = await readdir(directory);
+    const lines = (await readFile(join(directory, segment), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).model)).toEqual(['a', 'b']);
+
+    spool.ack(items);
+    await spool.idle();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it.skipIf(process.platform === 'win32')('should create the directory and segments readable by the owner only', async () => {
+    const spoolDirectory = join(directory, 'spool');
+    const spool = new FileSpool({ directory: spoolDirectory });
+    spool.append(createTrace());
+    await spool.idle();
+
+    const [segment] = await readdir(spoolDirectory);
+    expect((await stat(spoolDirectory)).mode & 0o777).toBe(0o700);
+    expect((await stat(join(spoolDirectory, segment))).mode & 0o777).toBe(0o600);
+  });
+
+  it('should rotate segments by size', async () => {
+    const spool = new FileSpool({ directory, maxSegmentBytes: 200 });
+    for (let i = 0; i < 4; i++) {
+      spool.append(createTrace());
+    }
+    await spool.idle();
+
+    expect((await readdir(directory)).length).toBeGreaterThan(1);
+  });
+
+  it('should drop the oldest segments when over the size cap', async () => {
+    const spool = new FileSpool({ directory, maxSegmentBytes: 200, maxBytes: 400 });
+    for (let i = 0; i < 6; i++) {
+      spool.append(createTrace({ model: `m${i}` }));
+    }
+    await spool.idle();
+
+    expect(spool.getDroppedSegments()).toBeGreaterThan(0);
+    const files = await readdir(directory);
+    const models = (await Promise.all(files.map((f) => readFile(join(directory, f), 'utf8'))))
+      .join('')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line).model);
+    expect(models).toContain('m5');
+    expect(models).not.toContain('m0');
+  });
+
+  it('should recover orphaned segments and skip corrupt lines', async () => {
+    await writeFile(
+      join(directory, DEAD_SEGMENT),
+      [JSON.stringify(createTrace({ model: 'a' })), '{not json', JSON.stringify({ foo: 1 }), '{"provider":"openai","mod'].join('\n')
+    );
+
+    const spool = new FileSpool({ directory });
+    const recovered: CreateTraceRequest[] = [];
+    spool.recover((items) => recovered.push(...items));
+    await spool.idle();
+
+    expect(recovered.map((item) => item.model)).toEqual(['a']);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('skipped 3 corrupt line(s)'));
+
+    spool.ack(recovered);
+    await spool.idle();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('should not recover segments of a live spool in this process', async () => {
+    const owner = new FileSpool({ directory });
+    owner.append(createTrace());
+    await owner.idle();
+
+    const other = new FileSpool({ directory });
+    const recovered: CreateTraceRequest[] = [];
+    other.recover((items) => recovered.push(...items));
+    await other.idle();
+    expect(recovered).toEqual([]);
+
+    await owner.close();
+    other.recover((items) => recovered.push(...items));
+    await other.idle();
+    expect(recovered).toHaveLength(1);
+  });
+
+  describe('with Transport', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      vi.stubGlobal('fetch', mockFetch);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send spans spooled by a previous process on startup', async () => {
+      await writeFile(join(directory, DEAD_SEGMENT), JSON.stringify(createTrace({ model: 'from-disk' })) + '\n');
+      mockFetch.mockResolvedValue(new Response('{}', { status: 200 }));
+
+      const transport = new Transport({ apiKey: 'le_test', endpoint: 'https://api.test', debug: false, disabled: false, spool: { directory } });
+      await transport.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).events[0].model).toBe('from-disk');
+
+      await transport.flush();
+      expect(await readdir(directory)).toEqual([]);
+    });
+
+    it('should send recovered spans with the projectKey they were captured with', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+      const crashed = new Transport({ apiKey: 'le_default', endpoint: 'https://api.test', debug: false, disabled: false, maxRetries: 0, spool: { directory } });
+      const routed = createTrace({ model: 'tenant' });
+      setProjectKey(routed, 'le_tenant');
+      crashed.enqueue(routed);
+      crashed.enqueue(createTrace({ model: 'default' }));
+      await crashed.flush();
+      await crashed.shutdown();
+
+      mockFetch.mockReset();
+      mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+      const restarted = new Transport({ apiKey: 'le_default', endpoint: 'https://api.test', debug: false, disabled: false, spool: { directory } });
+      await restarted.flush();
+
+      const sent = Object.fromEntries(mockFetch.mock.calls.map(([, init]) => [
+        init.headers['Authorization'],
+        JSON.parse(init.body).events.map((e: CreateTraceRequest) => e.model),
+      ]));
+      expect(sent).toEqual({ 'Bearer le_tenant': ['tenant'], 'Bearer le_default': ['default'] });
+      expect(JSON.stringify(JSON.parse(mockFetch.mock.calls[0][1].body))).not.toContain('le_tenant');
+      await restarted.shutdown();
+    });
+
+    it('should keep spans on disk when the API is unreachable', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      const transport = new Transport({ apiKey: 'le_test', endpoint: 'https://api.test', debug: false, disabled: false, maxRetries: 0, spool: { directory } });
+      transport.enqueue(createTrace({ model: 'kept' }));
+      await transport.flush();
+
+      const [segment] = await readdir(directory);
+      expect(JSON.parse(await readFile(join(directory, segment), 'utf8')).model).toBe('kept');
+      await transport.shutdown();
+    });
+
+    it('should resend spooled spans of a failed batch once the API accepts a batch again', async () => {
+      mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const transport = new Transport({ apiKey: 'le_test', endpoint: 'https://api.test', debug: false, disabled: false, maxRetries: 0, spool: { directory } });
+      transport.enqueue(createTrace({ model: 'failed' }));
+      await transport.flush();
+      expect(transport.getPendingCount()).toBe(1);
+
+      transport.enqueue(createTrace({ model: 'next' }));
+      await transport.flush();
+      await transport.flush();
+
+      const sent = mockFetch.mock.calls.slice(1).flatMap(([, init]) => JSON.parse(init.body).events.map((e: CreateTraceRequest) => e.model));
+      expect(sent).toEqual(['next', 'failed']);
+      expect(transport.getStats()).toMatchObject({ sentSpans: 2, droppedSpans: 0 });
+
+      await transport.shutdown();
+      expect(await readdir(directory)).toEqual([]);
+    });
+
+    it('should count deferred spans evicted by the spool size cap as dropped', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      const transport = new Transport({
+        apiKey: 'le_test', endpoint: 'https://api.test', debug: false, disabled: false, maxRetries: 0, batchSize: 1,
+        circuitBreaker: false, spool: { directory, maxSegmentBytes: 200, maxBytes: 400 },
+      });
+      for (let i = 0; i < 4; i++) {
+        transport.enqueue(createTrace({ model: `m${i}` }));
+        await transport.flush();
+      }
+
+      const stats = transport.getStats();
+      expect(stats.droppedSpans).toBeGreaterThan(0);
+      expect(stats.droppedSpans + transport.getPendingCount()).toBe(4);
+      await transport.shutdown();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { flush, shutdown } from '../../src/core/config';
+import { trace, span } from '../../src/core/context';
+import { captureLLMCall, initWithExporter } from '../helpers/capture';
+
+describe('Tail sampling', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should discard traces matching no rule', async () => {
+    const exported = initWithExporter({ tailSampling: {} });
+
+    await trace('agent', async () => {
+      captureLLMCall();
+    });
+    await flush();
+
+    expect(exported).toHaveLength(0);
+  });
+
+  it('should keep the whole trace when any span errored', async () => {
+    const exported = initWithExporter({ tailSampling: {} });
+
+    await trace('agent', async () => {
+      captureLLMCall();
+      span({ type: 'tool', name: 'search', status: 'error', errorMessage: 'timeout' });
+    });
+    await flush();
+
+    expect(exported.map((s) => s.spanType ?? 'llm')).toEqual(['llm', 'tool', 'agent']);
+  });
+
+  it('should keep slow, expensive and tagged traces', async () => {
+    const exported = initWithExporter({
+      tailSampling: { keepErrors: false, minDurationMs: 1000, minTotalTokens: 500, tags: ['debug'] },
+    });
+    const rawResponse = { choices: [], usage: { prompt_tokens: 150, completion_tokens: 150 } };
+
+    await trace('fast', async () => {
+      captureLLMCall({ durationMs: 50 });
+    });
+    await trace('slow', async () => {
+      captureLLMCall({ durationMs: 2000 });
+    });
+    await trace('expensive', async () => {
+      captureLLMCall({ rawResponse });
+      captureLLMCall({ rawResponse });
+    });
+    await trace({ name: 'tagged', tags: ['debug'] }, async () => {
+      captureLLMCall();
+    });
+    await flush();
+
+    expect(exported.filter((s) => s.spanType === 'agent').map((s) => s.name)).toEqual([
+      'slow',
+      'expensive',
+      'tagged',
+    ]);
+  });
+
+  it('should apply the custom rule and the fallback ratio', async () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.9);
+    const exported = initWithExporter({ tailSampling: { rule: (spans) => spans.length > 2, fallbackRatio: 0.5 } });
+
+    await trace('short', async () => {
+      captureLLMCall();
+    });
+    await trace('long', async () => {
+      captureLLMCall();
+      captureLLMCall();
+    });
+    random.mockReturnValue(0.1);
+    await trace('lucky', async () => {
+      captureLLMCall();
+    });
+    await flush();
+
+    expect(exported.filter((s) => s.spanType === 'agent').map((s) => s.name)).toEqual(['long', 'lucky']);
+  });
+
+  it('should decide spans outside trace() on their own', async () => {
+    const exported = initWithExporter({ tailSampling: {} });
+
+    captureLLMCall();
+    captureLLMCall({ status: 'error' });
+    await flush();
+
+    expect(exported.map((s) => s.status)).toEqual(['error']);
+  });
+
+  it('should decide the oldest trace early when the buffer is full', async () => {
+    const exported = initWithExporter({ tailSampling: { maxBufferedSpans: 2 } });
+
+    await trace('outer', async () => {
+      captureLLMCall({ status: 'error' });
+      captureLLMCall();
+      captureLLMCall();
+      await flush();
+
+      expect(exported).toHaveLength(3);
+    });
+  });
+
+  it('should decide traces that never finish after maxTraceAgeMs', async () => {
+    vi.useFakeTimers();
+    const exported = initWithExporter({ tailSampling: { maxTraceAgeMs: 1000 } });
+
+    let finish: () => void = () => {};
+    const pending = trace('stuck', async () => {
+      captureLLMCall({ status: 'error' });
+      await new Promise<void>((resolve) => (finish = resolve));
+    });
+
+    await vi.advanceTimersByTimeAsync(999);
+    await flush();
+    expect(exported).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await flush();
+    expect(exported.map((s) => s.status)).toEqual(['error']);
+
+    finish();
+    await pending;
+  });
+
+  it('should decide buffered traces on shutdown', async () => {
+    const exported = initWithExporter({ tailSampling: {} });
+
+    await trace('outer', async () => {
+      captureLLMCall({ status: 'error' });
+      await shutdown();
+    });
+
+    expect(exported).toHaveLength(1);
+  });
+});
@@ -0,0 +1,902 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gunzipSync } from 'node:zlib';
+import { Transport, HttpError, isRetryableError } from '../../src/core/transport';
+import type { CreateTraceRequest } from '../../src/core/types';
+import { createTrace } from '../helpers/spans';
+
+function createTransport(overrides: Partial<ConstructorParameters<typeof Transport>[0]> = {}): Transport {
+  return new Transport({
+    apiKey: 'le_test',
+    endpoint: 'https://api.test',
+    debug: false,
+    disabled: false,
+    retryInitialDelayMs: 10,
+    retryMaxDelayMs: 100,
+    ...overrides,
+  });
+}
+
+function jsonResponse(status: number, body = ''): Response {
+  return new Response(body, { status });
+}
+
+describe('Transport', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry network errors', () => {
+      expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+    });
+
+    it('should retry 408, 429 and 5xx', () => {
+      expect(isRetryableError(new HttpError(408, ''))).toBe(true);
+      expect(isRetryableError(new HttpError(429, ''))).toBe(true);
+      expect(isRetryableError(new HttpError(500, ''))).toBe(true);
+      expect(isRetryableError(new HttpError(503, ''))).toBe(true);
+    });
+
+    it('should not retry other 4xx', () => {
+      expect(isRetryableError(new HttpError(400, ''))).toBe(false);
+      expect(isRetryableError(new HttpError(401, ''))).toBe(false);
+      expect(isRetryableError(new HttpError(413, ''))).toBe(false);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a batch after a 5xx and then succeed', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(503, 'unavailable'))
+        .mockResolvedValueOnce(jsonResponse(200, '{}'));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should retry network errors', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(401, 'unauthorized'));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('HTTP 401'));
+    });
+
+    it('should give up after maxRetries', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(500, 'boom'));
+
+      const transport = createTransport({ maxRetries: 2 });
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(console.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when maxRetries is 0', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(500));
+
+      const transport = createTransport({ maxRetries: 0 });
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep backoff delays under retryMaxDelayMs', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.999);
+      mockFetch.mockResolvedValue(jsonResponse(500));
+
+      const transport = createTransport({ maxRetries: 5, retryInitialDelayMs: 50, retryMaxDelayMs: 120 });
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.advanceTimersByTimeAsync(5 * 120);
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('stats', () => {
+    it('should count sent spans and ingest latency', async () => {
+      mockFetch.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        return jsonResponse(200);
+      });
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.advanceTimersByTimeAsync(40);
+      await flushed;
+
+      expect(transport.getStats()).toMatchObject({
+        enqueuedSpans: 2,
+        sentSpans: 2,
+        failedBatches: 0,
+        lastError: null,
+        lastSuccessAt: Date.now(),
+        averageLatencyMs: 40,
+      });
+    });
+
+    it('should count retries, failed batches and the last error', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(500, 'boom'));
+
+      const transport = createTransport({ maxRetries: 2 });
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(transport.getStats()).toMatchObject({
+        enqueuedSpans: 1,
+        sentSpans: 0,
+        retriedSpans: 2,
+        failedBatches: 1,
+        droppedSpans: 1,
+        lastError: 'HTTP 500: boom',
+        lastErrorAt: Date.now(),
+        lastSuccessAt: 0,
+        averageLatencyMs: 0,
+      });
+    });
+  });
+
+  describe('idempotency', () => {
+    it('should reuse the Idempotency-Key when retrying a batch', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('Request timeout after 10000ms'))
+        .mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      const [first, retry] = mockFetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+      expect(first).toEqual(expect.any(String));
+      expect(retry).toBe(first);
+    });
+
+    it('should use a new key for every batch', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      await transport.flush();
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      const [first, second] = mockFetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+      expect(second).not.toBe(first);
+    });
+
+    it('should give every span a spanId', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      transport.enqueue(createTrace({ spanId: 'existing' }));
+      await transport.flush();
+
+      const [generated, existing] = JSON.parse(mockFetch.mock.calls[0][1].body).events;
+      expect(generated.spanId).toEqual(expect.any(String));
+      expect(existing.spanId).toBe('existing');
+    });
+  });
+
+  describe('throttling', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should pause sending and keep spans queued on 429 with Retry-After', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '30' } }))
+        .mockResolvedValue(jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(transport.getPendingCount()).toBe(1);
+      expect(transport.getStats()).toMatchObject({ throttled: true, throttleCount: 1 });
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ingest throttled'));
+
+      // Flushing during the pause does not send
+      transport.enqueue(createTrace());
+      await transport.flush();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).events).toHaveLength(2);
+      expect(transport.getPendingCount()).toBe(0);
+      expect(transport.getStats().throttled).toBe(false);
+    });
+
+    it('should parse Retry-After as an HTTP date', async () => {
+      const retryAt = new Date(Date.now() + 10_000).toUTCString();
+      mockFetch.mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': retryAt } }));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      const { throttledUntil } = transport.getStats();
+      expect(throttledUntil - Date.now()).toBeGreaterThan(5_000);
+      expect(throttledUntil - Date.now()).toBeLessThanOrEqual(10_000);
+    });
+
+    it('should pause when the rate-limit quota is exhausted', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('{}', { status: 200, headers: { 'RateLimit-Remaining': '0', 'RateLimit-Reset': '5' } })
+      );
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      expect(transport.getStats()).toMatchObject({ throttled: true, throttleCount: 1 });
+    });
+
+    it('should fall back to backoff retries on 429 without Retry-After', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(429))
+        .mockResolvedValueOnce(jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(transport.getStats().throttleCount).toBe(0);
+    });
+  });
+
+  describe('bounded queue', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    function queuedModels(transport: Transport): Promise<string[]> {
+      mockFetch.mockResolvedValue(jsonResponse(200));
+      return transport.flush().then(() =>
+        JSON.parse(mockFetch.mock.calls[0][1].body).events.map((e: CreateTraceRequest) => e.model)
+      );
+    }
+
+    it('should drop the newest spans by default', async () => {
+      const transport = createTransport({ maxQueueSize: 2 });
+      ['a', 'b', 'c'].forEach((model) => transport.enqueue(createTrace({ model })));
+
+      expect(transport.getStats()).toMatchObject({ queueSize: 2, droppedSpans: 1 });
+      expect(await queuedModels(transport)).toEqual(['a', 'b']);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Queue full'));
+    });
+
+    it('should drop the oldest spans with drop-oldest', async () => {
+      const transport = createTransport({ maxQueueSize: 2, queueOverflowPolicy: 'drop-oldest' });
+      ['a', 'b', 'c'].forEach((model) => transport.enqueue(createTrace({ model })));
+
+      expect(await queuedModels(transport)).toEqual(['b', 'c']);
+    });
+
+    it('should keep error spans with drop-non-error', async () => {
+      const transport = createTransport({ maxQueueSize: 2, queueOverflowPolicy: 'drop-non-error' });
+      transport.enqueue(createTrace({ model: 'err', status: 'error' }));
+      transport.enqueue(createTrace({ model: 'ok-1' }));
+      transport.enqueue(createTrace({ model: 'ok-2' }));
+
+      expect(await queuedModels(transport)).toEqual(['err', 'ok-2']);
+    });
+
+    it('should enforce maxQueueBytes', () => {
+      const transport = createTransport({ maxQueueBytes: 500 });
+      for (let i = 0; i < 5; i++) {
+        transport.enqueue(createTrace({ input: 'x'.repeat(200) }));
+      }
+
+      const stats = transport.getStats();
+      expect(stats.queueBytes).toBeLessThanOrEqual(500);
+      expect(stats.droppedSpans).toBe(5 - stats.queueSize);
+    });
+
+    it('should warn once per overflow episode', () => {
+      const transport = createTransport({ maxQueueSize: 1 });
+      for (let i = 0; i < 5; i++) {
+        transport.enqueue(createTrace());
+      }
+
+      expect(transport.getStats().droppedSpans).toBe(4);
+      expect(console.warn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('batch sizing', () => {
+    const sentEvents = (call: number): CreateTraceRequest[] => JSON.parse(mockFetch.mock.calls[call][1].body).events;
+
+    it('should split a flush into batches under maxBatchBytes', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ compression: false, batchSize: 100, maxBatchBytes: 2_000 });
+      for (let i = 0; i < 5; i++) {
+        transport.enqueue(createTrace({ input: 'x'.repeat(500) }));
+      }
+      await vi.runAllTimersAsync();
+
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(1);
+      for (const [, init] of mockFetch.mock.calls) {
+        expect(new TextEncoder().encode(init.body).length).toBeLessThanOrEqual(2_000);
+      }
+      expect(mockFetch.mock.calls.flatMap((_, i) => sentEvents(i))).toHaveLength(5);
+    });
+
+    it('should flush as soon as queued bytes reach maxBatchBytes', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ compression: false, batchSize: 100, maxBatchBytes: 1_000 });
+      transport.enqueue(createTrace({ input: 'x'.repeat(600) }));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      transport.enqueue(createTrace({ input: 'x'.repeat(600) }));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalled();
+    });
+
+    it('should trim rawResponse, then input, of a span too large on its own', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ compression: false, maxBatchBytes: 1_000 });
+      const trace = createTrace({
+        input: 'y'.repeat(2_000),
+        rawResponse: { id: 'chatcmpl-1', usage: { prompt_tokens: 10 }, choices: [{ text: 'z'.repeat(2_000) }] },
+      });
+      transport.enqueue(trace);
+      await transport.flush();
+
+      const [event] = sentEvents(0);
+      expect(new TextEncoder().encode(mockFetch.mock.calls[0][1].body).length).toBeLessThanOrEqual(1_000);
+      expect(event.rawResponse).toEqual({ truncated: true, id: 'chatcmpl-1', usage: { prompt_tokens: 10 } });
+      expect(event.input).toMatch(/^y+\.\.\.\[truncated\]$/);
+      // The queued span itself is untouched
+      expect(trace.input).toHaveLength(2_000);
+    });
+
+    it('should trim output of a span too large on its own, keeping a small input', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ compression: false, maxBatchBytes: 1_000 });
+      transport.enqueue(createTrace({ spanType: 'agent', output: { answer: 'z'.repeat(5_000) } }));
+      await transport.flush();
+
+      const [event] = sentEvents(0);
+      expect(new TextEncoder().encode(mockFetch.mock.calls[0][1].body).length).toBeLessThanOrEqual(1_000);
+      expect(event.input).toEqual([{ role: 'user', content: 'Hello' }]);
+      expect(event.output).toMatch(/^\{"answer":"z+\.\.\.\[truncated\]$/);
+    });
+
+    it('should split the space between input and output when both are too large', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ compression: false, maxBatchBytes: 1_000 });
+      transport.enqueue(createTrace({ input: 'y'.repeat(3_000), output: 'z'.repeat(3_000) }));
+      await transport.flush();
+
+      const [event] = sentEvents(0);
+      expect(new TextEncoder().encode(mockFetch.mock.calls[0][1].body).length).toBeLessThanOrEqual(1_000);
+      expect((event.input as string).length).toBeGreaterThan(300);
+      expect((event.output as string).length).toBeGreaterThan(300);
+    });
+
+    it('should replace metadata as a last resort', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ compression: false, maxBatchBytes: 1_000 });
+      transport.enqueue(createTrace({ metadata: { notes: 'm'.repeat(3_000) } }));
+      await transport.flush();
+
+      expect(new TextEncoder().encode(mockFetch.mock.calls[0][1].body).length).toBeLessThanOrEqual(1_000);
+      expect(sentEvents(0)[0].metadata).toEqual({ truncated: true });
+    });
+
+    it('should keep input when dropping rawResponse is enough', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ compression: false, maxBatchBytes: 1_000 });
+      transport.enqueue(createTrace({ rawResponse: { choices: [{ text: 'z'.repeat(2_000) }] } }));
+      await transport.flush();
+
+      expect(sentEvents(0)[0].input).toEqual([{ role: 'user', content: 'Hello' }]);
+    });
+
+    it('should halve the batch when the API answers 413', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(413, 'Payload Too Large'))
+        .mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ batchSize: 100 });
+      for (let i = 0; i < 4; i++) {
+        transport.enqueue(createTrace());
+      }
+      await transport.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(sentEvents(1)).toHaveLength(2);
+      expect(sentEvents(2)).toHaveLength(2);
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should requeue the remaining batches when throttled mid-flush', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch
+        .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '10' } }))
+        .mockResolvedValueOnce(jsonResponse(200))
+        .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '10' } }));
+
+      const transport = createTransport({ batchSize: 2 });
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      // Queued during the pause, sent as three batches once it ends
+      transport.export([createTrace(), createTrace(), createTrace(), createTrace()]);
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(transport.getPendingCount()).toBe(3);
+    });
+  });
+
+  describe('batch-by-trace delivery', () => {
+    const root = (traceId: string) => createTrace({ traceId, spanType: 'agent', model: 'agent', spanId: `${traceId}-root` });
+    const child = (traceId: string, model = 'gpt-4o') => createTrace({ traceId, parentSpanId: `${traceId}-root`, model });
+
+    function sentBodies(): Array<{ events: CreateTraceRequest[]; traces?: unknown[] }> {
+      return mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body));
+    }
+
+    it('should hold a trace until its root span and send it in one batch', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      const transport = createTransport({ deliveryMode: 'trace', batchSize: 2 });
+
+      transport.enqueue(child('t1', 'first'));
+      transport.enqueue(child('t1', 'second'));
+      transport.enqueue(child('t2'));
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(transport.getStats()).toMatchObject({ heldSpans: 3, queueSize: 0 });
+
+      transport.enqueue(root('t1'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      const [body] = sentBodies();
+      expect(body.events.map((e) => e.model)).toEqual(['first', 'second', 'agent']);
+      expect(body.traces).toEqual([{ traceId: 't1', spanCount: 3, complete: true }]);
+      expect(transport.getStats().heldSpans).toBe(1);
+    });
+
+    it('should keep traces whole when packing batches', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      const transport = createTransport({ deliveryMode: 'trace', batchSize: 3 });
+
+      for (const traceId of ['t1', 't2']) {
+        transport.enqueue(child(traceId));
+        transport.enqueue(root(traceId));
+      }
+      await transport.flush();
+
+      expect(sentBodies().map((body) => body.events.map((e) => e.traceId))).toEqual([['t1', 't1'], ['t2', 't2']]);
+    });
+
+    it('should send unfinished traces as incomplete after traceHoldMs', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      const transport = createTransport({ deliveryMode: 'trace', traceHoldMs: 10_000 });
+
+      transport.enqueue(child('stuck'));
+      await vi.advanceTimersByTimeAsync(10_000 + 1000);
+
+      expect(sentBodies()[0].traces).toEqual([{ traceId: 'stuck', spanCount: 1, complete: false }]);
+    });
+
+    it('should send held traces on shutdown', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      const transport = createTransport({ deliveryMode: 'trace' });
+
+      transport.enqueue(child('t1'));
+      await transport.shutdown();
+
+      expect(sentBodies()[0].traces).toEqual([{ traceId: 't1', spanCount: 1, complete: false }]);
+    });
+
+    it('should send spans outside trace() without markers', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      const transport = createTransport({ deliveryMode: 'trace' });
+
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      expect(sentBodies()[0]).toEqual({ events: [expect.objectContaining({ model: 'gpt-4o' })] });
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const failingTransport = (overrides: Partial<ConstructorParameters<typeof Transport>[0]> = {}) =>
+      createTransport({ maxRetries: 0, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 1_000 }, ...overrides });
+
+    async function failBatches(transport: Transport, count: number): Promise<void> {
+      for (let i = 0; i < count; i++) {
+        transport.enqueue(createTrace());
+        await transport.flush();
+      }
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should open after consecutive failed batches and stop sending', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(500));
+
+      const transport = failingTransport();
+      await failBatches(transport, 1);
+      expect(transport.getStats().circuitState).toBe('closed');
+
+      await failBatches(transport, 1);
+      expect(transport.getStats().circuitState).toBe('open');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      // The failed batch that opened the circuit is kept along with new spans
+      expect(transport.getPendingCount()).toBe(2);
+    });
+
+    it('should probe after the reset timeout and close on success', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(500));
+      const transport = failingTransport();
+      await failBatches(transport, 2);
+
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      await vi.advanceTimersByTimeAsync(999);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(transport.getStats().circuitState).toBe('closed');
+      expect(transport.getPendingCount()).toBe(0);
+    });
+
+    it('should reopen with a doubled timeout when the probe fails', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      mockFetch.mockImplementation(async () => jsonResponse(500));
+      const transport = failingTransport({ maxRetries: 3 });
+      for (let i = 0; i < 2; i++) {
+        transport.enqueue(createTrace());
+        const flushed = transport.flush();
+        await vi.advanceTimersByTimeAsync(10);
+        await flushed;
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(8);
+
+      // The probe gets a single attempt
+      await vi.advanceTimersByTimeAsync(1_050);
+      expect(mockFetch).toHaveBeenCalledTimes(9);
+      expect(transport.getStats().circuitState).toBe('open');
+
+      // Next probe 2s after the failed one
+      await vi.advanceTimersByTimeAsync(1_800);
+      expect(mockFetch).toHaveBeenCalledTimes(9);
+
+      await vi.advanceTimersByTimeAsync(300);
+      expect(mockFetch).toHaveBeenCalledTimes(10);
+    });
+
+    it('should not count rejected batches as failures', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(400));
+
+      const transport = failingTransport();
+      await failBatches(transport, 3);
+
+      expect(transport.getStats().circuitState).toBe('closed');
+    });
+
+    it('should drop the queue and new spans while open with queuePolicy drop', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(500));
+
+      const transport = failingTransport({ circuitBreaker: { failureThreshold: 1, queuePolicy: 'drop' } });
+      await failBatches(transport, 1);
+      transport.enqueue(createTrace());
+
+      expect(transport.getPendingCount()).toBe(0);
+      expect(transport.getStats()).toMatchObject({ circuitState: 'open', droppedSpans: 2 });
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ingest circuit open'));
+    });
+
+    it('should never open when disabled', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(500));
+
+      const transport = failingTransport({ circuitBreaker: false });
+      await failBatches(transport, 5);
+
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(transport.getStats().circuitState).toBe('closed');
+    });
+  });
+
+  describe('shutdown', () => {
+    it('should drain the whole queue and ignore later spans', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ batchSize: 100, flushIntervalMs: 60_000 });
+      for (let i = 0; i < 3; i++) {
+        transport.enqueue(createTrace());
+      }
+      await transport.shutdown();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(transport.getPendingCount()).toBe(0);
+
+      transport.enqueue(createTrace());
+      expect(transport.getPendingCount()).toBe(0);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should send spans queued while a batch was in flight', async () => {
+      let respond = () => {};
+      mockFetch.mockImplementationOnce(() => new Promise<Response>((resolve) => {
+        respond = () => resolve(jsonResponse(200));
+      }));
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace({ model: 'first' }));
+      void transport.flush();
+      await vi.advanceTimersByTimeAsync(0);
+      transport.enqueue(createTrace({ model: 'second' }));
+
+      const done = transport.shutdown();
+      respond();
+      await done;
+
+      const sent = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).events.map((e: CreateTraceRequest) => e.model));
+      expect(sent).toEqual([['first'], ['second']]);
+      expect(transport.getStats().queueSize).toBe(0);
+    });
+
+    it('should stop without looping when the API throttles', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '30' } }));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      await transport.shutdown();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(transport.getPendingCount()).toBe(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('compression', () => {
+    const largeTrace = () => createTrace({ input: 'hello world '.repeat(2000) });
+
+    it('should gzip payloads above the threshold', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(largeTrace());
+      await transport.flush();
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['Content-Encoding']).toBe('gzip');
+      expect(init.body).toBeInstanceOf(Uint8Array);
+      expect(JSON.parse(gunzipSync(init.body).toString()).events).toHaveLength(1);
+    });
+
+    it('should not compress small payloads', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['Content-Encoding']).toBeUndefined();
+      expect(typeof init.body).toBe('string');
+    });
+
+    it('should not compress when disabled', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(200));
+
+      const transport = createTransport({ compression: false });
+      transport.enqueue(largeTrace());
+      await transport.flush();
+
+      expect(mockFetch.mock.calls[0][1].headers['Content-Encoding']).toBeUndefined();
+    });
+
+    it('should resend uncompressed after a 415', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(415, 'unsupported encoding'))
+        .mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(largeTrace());
+      await transport.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers['Content-Encoding']).toBeUndefined();
+      expect(console.error).not.toHaveBeenCalled();
+
+      transport.enqueue(largeTrace());
+      await transport.flush();
+      expect(mockFetch.mock.calls[2][1].headers['Content-Encoding']).toBeUndefined();
+    });
+
+    it('should resend uncompressed once after a 400 and keep compressing if that fails too', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(400, 'invalid json'))
+        .mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport();
+      transport.enqueue(largeTrace());
+      await transport.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers['Content-Encoding']).toBeUndefined();
+      expect(transport.getStats()).toMatchObject({ sentSpans: 1, droppedSpans: 0 });
+
+      transport.enqueue(largeTrace());
+      await transport.flush();
+      expect(mockFetch.mock.calls[2][1].headers['Content-Encoding']).toBeUndefined();
+
+      const rejecting = createTransport();
+      mockFetch.mockClear();
+      mockFetch.mockImplementation(async () => jsonResponse(400, 'bad request'));
+      rejecting.enqueue(largeTrace());
+      await rejecting.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(rejecting.getStats()).toMatchObject({ failedBatches: 1, droppedSpans: 1 });
+
+      rejecting.enqueue(largeTrace());
+      await rejecting.flush();
+      expect(mockFetch.mock.calls[2][1].headers['Content-Encoding']).toBe('gzip');
+    });
+  });
+
+  describe('custom fetch and headers', () => {
+    it('should send through the configured fetch instead of the global one', async () => {
+      const customFetch = vi.fn(async () => jsonResponse(200));
+
+      const transport = createTransport({ fetch: customFetch });
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      expect(customFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should add static headers without dropping the defaults', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      const transport = createTransport({ headers: { 'X-Gateway-Key': 'gw_123' } });
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      expect(mockFetch.mock.calls[0][1].headers).toMatchObject({
+        'Content-Type': 'application/json',
+        'Authorization': 'Bearer le_test',
+        'X-Gateway-Key': 'gw_123',
+      });
+    });
+
+    it('should compute async headers before every request', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      let token = 0;
+      const headers = vi.fn(async () => ({ 'X-Gateway-Token': `token-${++token}` }));
+
+      const transport = createTransport({ headers });
+      transport.enqueue(createTrace());
+      await transport.flush();
+      transport.enqueue(createTrace());
+      await transport.flush();
+
+      expect(mockFetch.mock.calls.map(([, init]) => init.headers['X-Gateway-Token'])).toEqual(['token-1', 'token-2']);
+    });
+
+    it('should retry when computing headers fails', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+      const headers = vi.fn()
+        .mockRejectedValueOnce(new Error('token service down'))
+        .mockResolvedValue({ 'X-Gateway-Token': 'fresh' });
+
+      const transport = createTransport({ headers });
+      transport.enqueue(createTrace());
+      const flushed = transport.flush();
+      await vi.runAllTimersAsync();
+      await flushed;
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch.mock.calls[0][1].headers['X-Gateway-Token']).toBe('fresh');
+    });
+
+    it('should route requests through the proxy dispatcher', async () => {
+      class ProxyAgent {
+        constructor(readonly url: string) {}
+      }
+      vi.doMock('undici', () => ({ ProxyAgent }));
+      mockFetch.mockImplementation(async () => jsonResponse(200));
+
+      try {
+        const transport = createTransport({ proxy: 'http://proxy.internal:3128' });
+        transport.enqueue(createTrace());
+        await transport.flush();
+
+        expect(mockFetch.mock.calls[0][1].dispatcher).toEqual(new ProxyAgent('http://proxy.internal:3128'));
+      } finally {
+        vi.doUnmock('undici');
+      }
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { init, flush, shutdown, updateConfig, getConfig } from '../../src/core/config';
+import type { RuntimeConfig } from '../../src/core/types';
+import { captureLLMCall, initWithExporter } from '../helpers/capture';
+
+function sentUrls(mockFetch: ReturnType<typeof vi.fn>): string[] {
+  return mockFetch.mock.calls.map(([url]) => url as string);
+}
+
+describe('Runtime reconfiguration', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await shutdown();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should toggle sampling and redaction for spans captured afterwards', async () => {
+    const exported = initWithExporter({ sampling: 0 });
+
+    captureLLMCall({ input: 'dropped' });
+    updateConfig({ sampling: 1, redaction: { emails: true } });
+    captureLLMCall({ input: 'mail ana@example.com' });
+    await flush();
+
+    expect(exported.map((span) => span.input)).toEqual(['mail [EMAIL]']);
+  });
+
+  it('should update service metadata', async () => {
+    const exported = initWithExporter({ service: { name: 'chatbot' } });
+
+    updateConfig({ service: { name: 'chatbot', version: '2.0.0' } });
+    captureLLMCall();
+    await flush();
+
+    expect(exported[0].metadata?._telemetry).toMatchObject({ 'service.name': 'chatbot', 'service.version': '2.0.0' });
+  });
+
+  it('should send already queued spans to the new endpoint', async () => {
+    init({ apiKey: 'le_test', endpoint: 'https://old.test', flushIntervalMs: 60_000 });
+
+    captureLLMCall();
+    updateConfig({ endpoint: 'https://new.test' });
+    captureLLMCall();
+    await flush();
+
+    expect(sentUrls(mockFetch)).toEqual(['https://new.test/api/v1/ingest']);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body as string).events).toHaveLength(2);
+  });
+
+  it('should warn and flush spans queued under the previous config when init() is called again', async () => {
+    init({ apiKey: 'le_test', endpoint: 'https://old.test', flushIntervalMs: 60_000 });
+    captureLLMCall();
+
+    init({ apiKey: 'le_test', endpoint: 'https://new.test', flushIntervalMs: 60_000 });
+    captureLLMCall();
+    await flush();
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('init() called more than once'));
+    expect(sentUrls(mockFetch).sort()).toEqual(['https://new.test/api/v1/ingest', 'https://old.test/api/v1/ingest']);
+  });
+
+  it('should not warn when init() is called again with the same options', () => {
+    init({ apiKey: 'le_test', endpoint: 'https://api.test', redaction: { patterns: [/secret/g] } });
+    vi.mocked(console.warn).mockClear();
+    init({ apiKey: 'le_test', endpoint: 'https://api.test', redaction: { patterns: [/secret/g] } });
+
+    expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('init() called more than once'));
+  });
+
+  it('should reject options that need init(), naming each one', () => {
+    init({ apiKey: 'le_test', batchSize: 10 });
+
+    updateConfig({ sampling: 0.5, batchSize: 50, apiKey: 'le_other' } as RuntimeConfig);
+
+    expect(getConfig()).toMatchObject({ sampling: 0.5, batchSize: 10, apiKey: 'le_test' });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('batchSize: can\'t be changed at runtime'));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('apiKey: can\'t be changed at runtime'));
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { validateConfig, LelemonConfigError } from '../../src/core/validate';
+import { init, flush, getConfig } from '../../src/core/config';
+import type { LelemonConfig } from '../../src/core/types';
+import { captureLLMCall, initWithExporter } from '../helpers/capture';
+
+describe('Config validation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should report field, problem and fix for each invalid option', () => {
+    const diagnostics = validateConfig({
+      flushIntervalMs: '1000',
+      batchSize: -5,
+      endpoint: 'api.lelemon.dev',
+      retry: { maxRetries: 1.5 },
+      redaction: { patterns: [/sk-[a-z0-9]+/] },
+    } as unknown as LelemonConfig);
+
+    expect(diagnostics).toEqual([
+      { field: 'flushIntervalMs', problem: 'expected an integer >= 0, got "1000"', fix: expect.stringContaining('whole number') },
+      { field: 'batchSize', problem: 'expected an integer >= 1, got -5', fix: expect.any(String) },
+      { field: 'endpoint', problem: 'expected an absolute URL, got "api.lelemon.dev"', fix: expect.stringContaining('https://') },
+      { field: 'retry.maxRetries', problem: 'expected an integer >= 0, got 1.5', fix: expect.any(String) },
+      {
+        field: 'redaction.patterns[0]',
+        problem: expect.stringContaining('not global'),
+        fix: 'Add the g flag: /sk-[a-z0-9]+/g',
+      },
+    ]);
+  });
+
+  it('should suggest the option a typo meant and never echo secrets', () => {
+    const diagnostics = validateConfig({ flushInterval: 1000, apiKey: 12345, retry: { maxRetry: 2 } } as unknown as LelemonConfig);
+
+    expect(diagnostics).toEqual([
+      { field: 'flushInterval', problem: 'unknown option', fix: 'Did you mean flushIntervalMs?' },
+      { field: 'apiKey', problem: 'expected a string', fix: expect.any(String) },
+      { field: 'retry.maxRetry', problem: 'unknown option', fix: 'Did you mean retry.maxRetries?' },
+    ]);
+  });
+
+  it('should accept a valid config', () => {
+    expect(validateConfig({
+      apiKey: 'le_test',
+      endpoint: 'http://localhost:3000',
+      sampling: () => true,
+      circuitBreaker: false,
+      compression: false,
+      headers: () => ({ 'X-Token': 't' }),
+      exporters: [{ export: () => {}, shutdown: () => {} }],
+      redaction: { patterns: [/secret/gi], emails: true },
+    })).toEqual([]);
+  });
+
+  it('should warn, drop invalid options and make redaction patterns global in init()', async () => {
+    const exported = initWithExporter({ batchSize: -1, redaction: { patterns: [/sk-\w+/] } });
+
+    captureLLMCall({ input: 'sk-one and sk-two' });
+    await flush();
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Config issue at batchSize: expected an integer >= 1, got -1'));
+    expect(getConfig().batchSize).toBeUndefined();
+    expect(exported[0].input).toBe('[REDACTED] and [REDACTED]');
+  });
+
+  it('should throw every diagnostic in strict mode and keep the previous setup', () => {
+    init({ apiKey: 'le_previous' });
+
+    let thrown: unknown;
+    try {
+      init({ strict: true, apiKey: 'le_next', batchSize: 0, flushIntervalMs: -1 });
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).toBeInstanceOf(LelemonConfigError);
+    expect((thrown as LelemonConfigError).diagnostics.map((d) => d.field)).toEqual(['batchSize', 'flushIntervalMs']);
+    expect(getConfig().apiKey).toBe('le_previous');
+  });
+
+  it('should only warn in strict mode in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(() => init({ strict: true, batchSize: 0 })).not.toThrow();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Config issue at batchSize'));
+  });
+});
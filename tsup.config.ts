@@ -16,6 +16,8 @@ export default defineConfig({
     express: 'src/integrations/express.ts',
     hono: 'src/integrations/hono.ts',
     integrations: 'src/integrations/index.ts',
+    // Span exporters
+    exporters: 'src/exporters/index.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,